@@ -0,0 +1,154 @@
+/**
+ * Assign each school to the postcode district boundary its location falls
+ * in, and copy that district's metrics onto the school.
+ *
+ * Uses the high detail district boundaries, so schools near a border land on
+ * the right side of it. A school that falls in no boundary (on a stretch of
+ * coast the simplified boundaries cut off, say) is given its postcode's
+ * district instead, if that district has a boundary.
+ *
+ * Usage:
+ *   npm run assign-districts
+ *
+ * Output:
+ *   Updates src/data/schools.json with district and districtMetrics values
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+  BoundaryFeature,
+  DISTRICT_BOUNDARY_FILES,
+  DistrictMetricsArtifact,
+  DistrictProperties,
+  PostcodeDistrictsArtifact,
+  SchoolsArtifact,
+} from "../src/contract";
+import { validateSchools } from "../src/schema";
+import { boundaryFeatures } from "../src/utils/topojson";
+import { Bounds, geometryBounds, geometryContains } from "./lib/geometry";
+import { extractPostcodeDistrict } from "./lib/postcodes";
+import { assertValid, readArtifact } from "./lib/validation";
+
+const DATA_DIR = path.join(import.meta.dirname, "../src/data");
+const SCHOOLS_PATH = path.join(DATA_DIR, "schools.json");
+const BOUNDARIES_ARTIFACT = DISTRICT_BOUNDARY_FILES.high;
+const BOUNDARIES_PATH = path.join(DATA_DIR, BOUNDARIES_ARTIFACT);
+const METRICS_PATH = path.join(DATA_DIR, "district-metrics.json");
+
+// Size of the grid cells districts are indexed by, in degrees
+const GRID_CELL_DEGREES = 0.1;
+
+interface IndexedDistrict {
+  feature: BoundaryFeature<DistrictProperties>;
+  bounds: Bounds;
+}
+
+function cellKey(column: number, row: number): string {
+  return `${column},${row}`;
+}
+
+function cellOf(value: number): number {
+  return Math.floor(value / GRID_CELL_DEGREES);
+}
+
+/**
+ * Index districts by the grid cells their bounding boxes cover, so each
+ * school is only tested against the few districts near it.
+ */
+function buildGridIndex(features: BoundaryFeature<DistrictProperties>[]): Map<string, IndexedDistrict[]> {
+  const grid = new Map<string, IndexedDistrict[]>();
+  for (const feature of features) {
+    const bounds = geometryBounds(feature.geometry);
+    for (let column = cellOf(bounds.minLng); column <= cellOf(bounds.maxLng); column++) {
+      for (let row = cellOf(bounds.minLat); row <= cellOf(bounds.maxLat); row++) {
+        const key = cellKey(column, row);
+        const cell = grid.get(key);
+        if (cell) {
+          cell.push({ feature, bounds });
+        } else {
+          grid.set(key, [{ feature, bounds }]);
+        }
+      }
+    }
+  }
+  return grid;
+}
+
+function findDistrict(grid: Map<string, IndexedDistrict[]>, lng: number, lat: number): string | null {
+  const candidates = grid.get(cellKey(cellOf(lng), cellOf(lat))) ?? [];
+  const match = candidates.find(
+    ({ feature, bounds }) =>
+      lng >= bounds.minLng &&
+      lng <= bounds.maxLng &&
+      lat >= bounds.minLat &&
+      lat <= bounds.maxLat &&
+      geometryContains(feature.geometry, lng, lat)
+  );
+  return match?.feature.properties.district ?? null;
+}
+
+async function main() {
+  const artifact = readArtifact<SchoolsArtifact>("schools.json", SCHOOLS_PATH);
+  if (!artifact) {
+    console.log(`Schools file missing or out of date: ${SCHOOLS_PATH}`);
+    console.log("Please run: npm run process-data");
+    return;
+  }
+
+  const boundaries = readArtifact<PostcodeDistrictsArtifact>(BOUNDARIES_ARTIFACT, BOUNDARIES_PATH);
+  if (!boundaries) {
+    console.log(`Boundaries file missing or out of date: ${BOUNDARIES_PATH}`);
+    console.log("Please run: npm run process-boundaries");
+    return;
+  }
+
+  // Metrics are optional; schools are still assigned districts without them
+  const metrics = readArtifact<DistrictMetricsArtifact>("district-metrics.json", METRICS_PATH);
+  if (!metrics) {
+    console.log("District metrics not found, so schools will have no district metrics");
+  }
+
+  const features = boundaryFeatures(boundaries);
+  const knownDistricts = new Set(features.map((feature) => feature.properties.district));
+  const grid = buildGridIndex(features);
+  console.log(`Indexed ${features.length} districts`);
+
+  let byBoundary = 0;
+  let byPostcode = 0;
+  let unassigned = 0;
+  let differentFromPostcode = 0;
+
+  for (const school of artifact.schools) {
+    const postcodeDistrict = extractPostcodeDistrict(school.postcode);
+    let district = findDistrict(grid, school.lng, school.lat);
+
+    if (district) {
+      byBoundary++;
+      // Postcode districts aren't strictly geographic, so this is expected now and then
+      if (postcodeDistrict && district !== postcodeDistrict) differentFromPostcode++;
+    } else if (postcodeDistrict && knownDistricts.has(postcodeDistrict)) {
+      district = postcodeDistrict;
+      byPostcode++;
+    } else {
+      unassigned++;
+    }
+
+    school.district = district;
+    school.districtMetrics = district ? (metrics?.districts[district] ?? null) : null;
+  }
+
+  console.log(`Assigned by boundary: ${byBoundary}`);
+  console.log(`  In a different district from their postcode: ${differentFromPostcode}`);
+  console.log(`Assigned by postcode (outside every boundary): ${byPostcode}`);
+  console.log(`Unassigned: ${unassigned}`);
+
+  assertValid("schools.json", validateSchools(artifact));
+  fs.writeFileSync(SCHOOLS_PATH, JSON.stringify(artifact));
+  console.log(`Written to ${SCHOOLS_PATH}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
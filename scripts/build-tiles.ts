@@ -0,0 +1,204 @@
+/**
+ * Cut the postcode district and sector boundaries and school points into map
+ * tiles, so the app only loads the part of the country on screen.
+ *
+ * Tiles use the z/x/y scheme of web map tiles and are plain JSON: districts
+ * as GeoJSON features, schools in the format of schools.json. They're
+ * written to public/, so Vite serves them alongside the app and no tile
+ * server is needed. Each level of detail of the district boundaries is cut
+ * at its own zoom; sectors and schools are each cut at one zoom.
+ *
+ * The index also summarises every school, so the app can draw, filter and
+ * search all schools at any zoom, and only loads a school tile for the full
+ * records once zoomed in.
+ *
+ * Usage:
+ *   npm run build-tiles
+ *
+ * Output:
+ *   public/tiles/tiles.json (index of the tiles written, and school summaries)
+ *   public/tiles/districts/{z}/{x}/{y}.json
+ *   public/tiles/sectors/{z}/{x}/{y}.json
+ *   public/tiles/schools/{z}/{x}/{y}.json
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+  BoundaryFeature,
+  DISTRICT_BOUNDARY_FILES,
+  DistrictTile,
+  PostcodeDistrictsArtifact,
+  PostcodeSectorsArtifact,
+  SCHOOL_SUMMARY_FIELDS,
+  School,
+  SchoolSummary,
+  SchoolTile,
+  SchoolsArtifact,
+  SectorTile,
+  TileIndex,
+  createArtifactHeader,
+} from "../src/contract";
+import { BOUNDARY_DETAILS, BoundaryDetail } from "../src/types";
+import { boundaryFeatures } from "../src/utils/topojson";
+import { TileBounds, tileForPoint, tilesInBounds } from "../src/utils/tiles";
+import { readArtifact } from "./lib/validation";
+
+const DATA_DIR = path.join(import.meta.dirname, "../src/data");
+const OUTPUT_DIR = path.join(import.meta.dirname, "../public/tiles");
+
+// Tile zoom for each level of detail, a few levels below the map zooms the
+// level is shown at, so a screen only needs a handful of tiles
+const DISTRICT_TILE_ZOOMS: Record<BoundaryDetail, number> = {
+  low: 6,
+  medium: 8,
+  high: 10,
+};
+
+// Sectors are only shown from map zoom 12, so their tiles can be small
+const SECTOR_TILE_ZOOM = 10;
+
+// Small enough that a tile holds a town's schools rather than a region's
+const SCHOOL_TILE_ZOOM = 8;
+
+function featureBounds<P>(feature: BoundaryFeature<P>): TileBounds {
+  const bounds = { west: Infinity, south: Infinity, east: -Infinity, north: -Infinity };
+  const rings =
+    feature.geometry.type === "Polygon"
+      ? (feature.geometry.coordinates as number[][][])
+      : (feature.geometry.coordinates as number[][][][]).flat();
+  for (const ring of rings) {
+    for (const [lng, lat] of ring) {
+      bounds.west = Math.min(bounds.west, lng);
+      bounds.east = Math.max(bounds.east, lng);
+      bounds.south = Math.min(bounds.south, lat);
+      bounds.north = Math.max(bounds.north, lat);
+    }
+  }
+  return bounds;
+}
+
+function writeTile(layer: string, zoom: number, key: string, data: unknown): void {
+  const filePath = path.join(OUTPUT_DIR, layer, String(zoom), `${key}.json`);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(data));
+}
+
+function groupByTile<T>(items: T[], tilesOf: (item: T) => string[]): Map<string, T[]> {
+  const tiles = new Map<string, T[]>();
+  for (const item of items) {
+    for (const key of tilesOf(item)) {
+      const tile = tiles.get(key);
+      if (tile) {
+        tile.push(item);
+      } else {
+        tiles.set(key, [item]);
+      }
+    }
+  }
+  return tiles;
+}
+
+function buildDistrictTiles(detail: BoundaryDetail): string[] | null {
+  const artifact = DISTRICT_BOUNDARY_FILES[detail];
+  const boundaries = readArtifact<PostcodeDistrictsArtifact>(artifact, path.join(DATA_DIR, artifact));
+  if (!boundaries) {
+    console.log(`  ${artifact} not found, the app will load the whole file instead`);
+    return null;
+  }
+
+  const zoom = DISTRICT_TILE_ZOOMS[detail];
+  const tiles = groupByTile(boundaryFeatures(boundaries), (feature) =>
+    tilesInBounds(featureBounds(feature), zoom)
+  );
+  for (const [key, features] of tiles) {
+    const tile: DistrictTile = { type: "FeatureCollection", features };
+    writeTile("districts", zoom, key, tile);
+  }
+
+  console.log(`  ${detail}: ${tiles.size} tiles at zoom ${zoom}`);
+  return Array.from(tiles.keys()).sort();
+}
+
+function buildSectorTiles(): string[] | null {
+  const boundaries = readArtifact<PostcodeSectorsArtifact>(
+    "postcode-sectors.json",
+    path.join(DATA_DIR, "postcode-sectors.json")
+  );
+  if (!boundaries) {
+    console.log("  postcode-sectors.json not found, the app will load the whole file instead");
+    return null;
+  }
+
+  const tiles = groupByTile(boundaryFeatures(boundaries), (feature) =>
+    tilesInBounds(featureBounds(feature), SECTOR_TILE_ZOOM)
+  );
+  for (const [key, features] of tiles) {
+    const tile: SectorTile = { type: "FeatureCollection", features };
+    writeTile("sectors", SECTOR_TILE_ZOOM, key, tile);
+  }
+
+  console.log(`  ${tiles.size} tiles at zoom ${SECTOR_TILE_ZOOM}`);
+  return Array.from(tiles.keys()).sort();
+}
+
+function buildSchoolTiles(schools: School[]): string[] {
+  const tiles = groupByTile(schools, (school) => {
+    const { x, y } = tileForPoint(school.lng, school.lat, SCHOOL_TILE_ZOOM);
+    return [`${x}/${y}`];
+  });
+  for (const [key, tileSchools] of tiles) {
+    const tile: SchoolTile = { ...createArtifactHeader("schools.json"), schools: tileSchools };
+    writeTile("schools", SCHOOL_TILE_ZOOM, key, tile);
+  }
+
+  console.log(`  ${schools.length} schools in ${tiles.size} tiles at zoom ${SCHOOL_TILE_ZOOM}`);
+  return Array.from(tiles.keys()).sort();
+}
+
+function summarise(school: School): SchoolSummary {
+  return Object.fromEntries(SCHOOL_SUMMARY_FIELDS.map((field) => [field, school[field]])) as SchoolSummary;
+}
+
+async function main() {
+  const schools = readArtifact<SchoolsArtifact>("schools.json", path.join(DATA_DIR, "schools.json"));
+  if (!schools) {
+    console.log("src/data/schools.json not found. Run 'npm run process-data' first.");
+    process.exit(1);
+  }
+
+  // Start from an empty directory so tiles from an earlier run don't linger
+  fs.rmSync(OUTPUT_DIR, { recursive: true, force: true });
+  fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+
+  console.log("District tiles:");
+  const districts: TileIndex["districts"] = {};
+  for (const { value: detail } of BOUNDARY_DETAILS) {
+    const tiles = buildDistrictTiles(detail);
+    if (tiles) {
+      districts[detail] = { zoom: DISTRICT_TILE_ZOOMS[detail], tiles };
+    }
+  }
+
+  console.log("Sector tiles:");
+  const sectorTiles = buildSectorTiles();
+
+  console.log("School tiles:");
+  const schoolTiles = buildSchoolTiles(schools.schools);
+
+  const index: TileIndex = {
+    ...createArtifactHeader("tiles.json"),
+    districts,
+    sectors: sectorTiles ? { zoom: SECTOR_TILE_ZOOM, tiles: sectorTiles } : null,
+    schools: { zoom: SCHOOL_TILE_ZOOM, tiles: schoolTiles },
+    schoolIndex: schools.schools.map(summarise),
+  };
+  fs.writeFileSync(path.join(OUTPUT_DIR, "tiles.json"), JSON.stringify(index));
+
+  console.log(`\nWrote tiles to ${OUTPUT_DIR}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
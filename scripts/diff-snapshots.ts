@@ -0,0 +1,298 @@
+/**
+ * Compare the previous and current processed school snapshots and write a changelog.
+ *
+ * When the GIAS extract has changed, process-data keeps the previous
+ * src/data/schools.json as data/schools-previous.json before overwriting it,
+ * so the changelog covers everything between the two extracts.
+ *
+ * A school that converts to an academy gets a new URN in GIAS, so it shows up
+ * as one school closing and another opening. A closed school and an opened
+ * academy (of any type, special and free schools included) at the same
+ * postcode are reported as one conversion if their names are alike or the
+ * closed school was due to close for academy conversion.
+ *
+ * Usage:
+ *   npm run diff-snapshots
+ *
+ * Output:
+ *   src/data/changes.json
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+  SchoolChange,
+  SchoolChangelog,
+  SchoolsArtifact,
+  createArtifactHeader,
+} from "../src/contract";
+import { readArtifact } from "./lib/validation";
+
+const PREVIOUS_PATH = path.join(import.meta.dirname, "../data/schools-previous.json");
+const CURRENT_PATH = path.join(import.meta.dirname, "../src/data/schools.json");
+const OUTPUT_PATH = path.join(import.meta.dirname, "../src/data/changes.json");
+
+// Ignore coordinate jitter smaller than this when looking for moved schools
+const MOVED_THRESHOLD_METRES = 100;
+
+// Words common to school names, which say nothing about which school it is
+const GENERIC_NAME_WORDS = new Set([
+  "the",
+  "and",
+  "of",
+  "school",
+  "academy",
+  "primary",
+  "secondary",
+  "infant",
+  "infants",
+  "junior",
+  "juniors",
+  "community",
+  "church",
+  "england",
+  "ce",
+  "c",
+  "e",
+  "cofe",
+  "rc",
+  "catholic",
+  "voluntary",
+  "aided",
+  "controlled",
+  "va",
+  "vc",
+]);
+
+// Share of distinctive name words two schools need in common to be paired
+const NAME_SIMILARITY_THRESHOLD = 0.5;
+
+// The fields compared here. Every snapshot format has had the required ones.
+interface SnapshotSchool {
+  urn: string;
+  name: string;
+  type: string;
+  ofsted: string;
+  lat: number;
+  lng: number;
+  postcode?: string;
+  closeReason?: string | null;
+  academy?: boolean;
+}
+
+// Snapshots from before schools.json recorded it only have the display type,
+// which misses special and free school academies
+function isAcademy(school: SnapshotSchool): boolean {
+  return school.academy ?? school.type === "Academy";
+}
+
+function readPreviousSnapshot(): SnapshotSchool[] {
+  const data = JSON.parse(fs.readFileSync(PREVIOUS_PATH, "utf-8"));
+  // Snapshots from before schools.json was versioned are a bare array
+  return Array.isArray(data) ? data : data.schools;
+}
+
+function distanceMetres(a: SnapshotSchool, b: SnapshotSchool): number {
+  // Equirectangular approximation, accurate enough at these distances
+  const R = 6371000;
+  const toRad = (deg: number) => deg * (Math.PI / 180);
+  const x = toRad(b.lng - a.lng) * Math.cos(toRad((a.lat + b.lat) / 2));
+  const y = toRad(b.lat - a.lat);
+  return Math.sqrt(x * x + y * y) * R;
+}
+
+function nameWords(name: string): Set<string> {
+  return new Set(
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9 ]/g, " ")
+      .split(/\s+/)
+      .filter((word) => word !== "" && !GENERIC_NAME_WORDS.has(word))
+  );
+}
+
+function namesAlike(a: string, b: string): boolean {
+  const aWords = nameWords(a);
+  const bWords = nameWords(b);
+  if (aWords.size === 0 || bWords.size === 0) return false;
+  const shared = Array.from(aWords).filter((word) => bWords.has(word)).length;
+  return shared / Math.min(aWords.size, bWords.size) >= NAME_SIMILARITY_THRESHOLD;
+}
+
+function samePostcode(a: SnapshotSchool, b: SnapshotSchool): boolean {
+  const normalize = (postcode: string | undefined) => (postcode ?? "").toUpperCase().replace(/\s+/g, "");
+  return normalize(a.postcode) !== "" && normalize(a.postcode) === normalize(b.postcode);
+}
+
+/**
+ * Pair closed schools with the academies that replaced them under a new URN.
+ * Returns the pairs, and the closed and opened schools left unpaired.
+ */
+function pairConversions(
+  closed: SnapshotSchool[],
+  opened: SnapshotSchool[]
+): {
+  conversions: { before: SnapshotSchool; after: SnapshotSchool }[];
+  closed: SnapshotSchool[];
+  opened: SnapshotSchool[];
+} {
+  const conversions: { before: SnapshotSchool; after: SnapshotSchool }[] = [];
+  const pairedOpened = new Set<string>();
+  const unpairedClosed: SnapshotSchool[] = [];
+
+  for (const before of closed) {
+    const dueToConvert = /academy/i.test(before.closeReason ?? "");
+    const after = isAcademy(before)
+      ? undefined
+      : opened.find(
+          (school) =>
+            isAcademy(school) &&
+            !pairedOpened.has(school.urn) &&
+            samePostcode(before, school) &&
+            (dueToConvert || namesAlike(before.name, school.name))
+        );
+    if (after) {
+      conversions.push({ before, after });
+      pairedOpened.add(after.urn);
+    } else {
+      unpairedClosed.push(before);
+    }
+  }
+
+  return {
+    conversions,
+    closed: unpairedClosed,
+    opened: opened.filter((school) => !pairedOpened.has(school.urn)),
+  };
+}
+
+function diffSchool(previous: SnapshotSchool, current: SnapshotSchool): SchoolChange[] {
+  const changes: SchoolChange[] = [];
+  const base = { urn: current.urn, name: current.name, lat: current.lat, lng: current.lng };
+
+  if (previous.name !== current.name) {
+    changes.push({ ...base, kind: "renamed", detail: `Previously ${previous.name}` });
+  }
+  if (!isAcademy(previous) && isAcademy(current)) {
+    // A special school that converts is still a special school
+    const detail =
+      previous.type === current.type ? "Now run by an academy trust" : `Previously ${previous.type}`;
+    changes.push({ ...base, kind: "academised", detail });
+  }
+  if (previous.ofsted !== current.ofsted) {
+    changes.push({
+      ...base,
+      kind: "ofsted-changed",
+      detail: `${previous.ofsted} → ${current.ofsted}`,
+    });
+  }
+
+  const moved = distanceMetres(previous, current);
+  if (moved > MOVED_THRESHOLD_METRES) {
+    changes.push({
+      ...base,
+      kind: "moved",
+      detail: `Moved ${(moved / 1000).toFixed(1)} km`,
+    });
+  }
+
+  return changes;
+}
+
+function writeChangelog(hasPreviousSnapshot: boolean, changes: SchoolChange[]) {
+  const changelog: SchoolChangelog = {
+    ...createArtifactHeader("changes.json"),
+    hasPreviousSnapshot,
+    changes,
+  };
+  fs.mkdirSync(path.dirname(OUTPUT_PATH), { recursive: true });
+  fs.writeFileSync(OUTPUT_PATH, JSON.stringify(changelog, null, 2));
+  console.log(`Written to ${OUTPUT_PATH}`);
+}
+
+async function main() {
+  const currentArtifact = readArtifact<SchoolsArtifact>("schools.json", CURRENT_PATH);
+  if (!currentArtifact) {
+    console.log(`Schools file missing or out of date: ${CURRENT_PATH}`);
+    console.log("Please run: npm run process-data");
+    return;
+  }
+
+  if (!fs.existsSync(PREVIOUS_PATH)) {
+    console.log(`No previous snapshot found at ${PREVIOUS_PATH}`);
+    console.log("Changes will be reported from the next data refresh onwards.");
+    writeChangelog(false, []);
+    return;
+  }
+
+  console.log("Reading school snapshots...");
+  const previous = readPreviousSnapshot();
+  const current: SnapshotSchool[] = currentArtifact.schools;
+
+  const previousByUrn = new Map(previous.map((school) => [school.urn, school]));
+  const currentByUrn = new Map(current.map((school) => [school.urn, school]));
+
+  const changes: SchoolChange[] = [];
+
+  for (const school of current) {
+    const before = previousByUrn.get(school.urn);
+    if (before) {
+      changes.push(...diffSchool(before, school));
+    }
+  }
+
+  const paired = pairConversions(
+    previous.filter((school) => !currentByUrn.has(school.urn)),
+    current.filter((school) => !previousByUrn.has(school.urn))
+  );
+
+  for (const { before, after } of paired.conversions) {
+    changes.push({
+      urn: after.urn,
+      name: after.name,
+      kind: "academised",
+      detail: `Previously ${before.name} (${before.type}, URN ${before.urn})`,
+      lat: after.lat,
+      lng: after.lng,
+    });
+  }
+
+  for (const school of paired.opened) {
+    changes.push({
+      urn: school.urn,
+      name: school.name,
+      kind: "opened",
+      detail: school.type,
+      lat: school.lat,
+      lng: school.lng,
+    });
+  }
+
+  for (const school of paired.closed) {
+    changes.push({
+      urn: school.urn,
+      name: school.name,
+      kind: "closed",
+      detail: "No longer listed as open",
+      lat: school.lat,
+      lng: school.lng,
+    });
+  }
+
+  // Print a summary by kind
+  const counts = new Map<string, number>();
+  for (const change of changes) {
+    counts.set(change.kind, (counts.get(change.kind) || 0) + 1);
+  }
+  console.log(`Found ${changes.length} changes`);
+  for (const [kind, count] of counts.entries()) {
+    console.log(`  ${kind}: ${count}`);
+  }
+
+  writeChangelog(true, changes);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,34 @@
+/**
+ * CSV helpers for files too large to load with csv-parse in one go.
+ */
+
+/**
+ * Split one CSV line into fields, handling quoted fields and escaped quotes.
+ */
+export function parseCSVLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        // Escaped quote
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === "," && !inQuotes) {
+      fields.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+
+  return fields;
+}
@@ -0,0 +1,119 @@
+/**
+ * HTTP download helpers for the data pipeline.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import type { ReadableStream } from "stream/web";
+
+// Validators from the last successful download, used for conditional requests
+export interface DownloadState {
+  url: string;
+  etag: string | null;
+  lastModified: string | null;
+}
+
+export type DownloadResult =
+  | { status: "downloaded"; state: DownloadState; bytes: number }
+  | { status: "not-modified"; state: DownloadState }
+  | { status: "failed"; error: string; state: DownloadState | null };
+
+/**
+ * Download a URL to a file.
+ *
+ * If the file already exists and `previous` holds validators for the same URL,
+ * the request is conditional and a 304 leaves the file alone. Partial
+ * downloads are kept as `<output>.part` and resumed with a Range request on
+ * the next run, so a dropped connection halfway through a large file doesn't
+ * mean starting again. Callers should store the returned state even when the
+ * download fails, so the resume can check the file hasn't changed, and pass
+ * it in even when trying another URL: a partial file from another URL is
+ * only replaced once this one starts sending data.
+ *
+ * Downloads smaller than `minBytes` are treated as error pages and discarded
+ * without touching any existing copy.
+ */
+export async function downloadFile(
+  url: string,
+  output: string,
+  previous: DownloadState | null,
+  minBytes = 0
+): Promise<DownloadResult> {
+  const partPath = `${output}.part`;
+  const headers: Record<string, string> = { "User-Agent": "school-finder-uk" };
+
+  // Only resume if the file hasn't changed since the partial download
+  // started. If-Range takes a strong ETag or a Last-Modified date; without
+  // either there's no way to check, so the download starts again.
+  const resumeValidator =
+    previous?.etag && !previous.etag.startsWith("W/") ? previous.etag : previous?.lastModified;
+  const canResume = previous?.url === url && !!resumeValidator && fs.existsSync(partPath);
+  const partSize = canResume ? fs.statSync(partPath).size : 0;
+  if (partSize > 0 && resumeValidator) {
+    headers["Range"] = `bytes=${partSize}-`;
+    headers["If-Range"] = resumeValidator;
+  } else if (fs.existsSync(output) && previous?.url === url) {
+    if (previous.etag) headers["If-None-Match"] = previous.etag;
+    if (previous.lastModified) headers["If-Modified-Since"] = previous.lastModified;
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(url, { headers, redirect: "follow" });
+  } catch (error) {
+    return { status: "failed", error: String(error), state: null };
+  }
+
+  const state: DownloadState = {
+    url,
+    etag: response.headers.get("etag"),
+    lastModified: response.headers.get("last-modified"),
+  };
+
+  if (response.status === 304 && previous) {
+    return { status: "not-modified", state: previous };
+  }
+
+  // The range starts past the end of an unchanged file (a changed one would
+  // have come back whole because of If-Range), so the part file is complete
+  if (response.status === 416 && partSize > 0 && previous) {
+    if (partSize < minBytes) {
+      fs.unlinkSync(partPath);
+      return { status: "failed", error: `File too small (${partSize} bytes)`, state: null };
+    }
+    fs.renameSync(partPath, output);
+    return { status: "downloaded", state: previous, bytes: partSize };
+  }
+
+  if (!response.ok || !response.body) {
+    return { status: "failed", error: `HTTP ${response.status}`, state: null };
+  }
+
+  // 206 means the server honoured the Range header; anything else restarts
+  const resuming = response.status === 206;
+  if (resuming) {
+    console.log(`  Resuming from ${(partSize / 1024 / 1024).toFixed(0)}MB`);
+  }
+
+  fs.mkdirSync(path.dirname(output), { recursive: true });
+  try {
+    await pipeline(
+      Readable.fromWeb(response.body as ReadableStream<Uint8Array>),
+      fs.createWriteStream(partPath, { flags: resuming ? "a" : "w" })
+    );
+  } catch (error) {
+    // Keep the partial file, and its validators, so the next run can resume
+    return { status: "failed", error: String(error), state };
+  }
+
+  const bytes = fs.statSync(partPath).size;
+  if (bytes < minBytes) {
+    fs.unlinkSync(partPath);
+    return { status: "failed", error: `File too small (${bytes} bytes)`, state: null };
+  }
+
+  fs.renameSync(partPath, output);
+  return { status: "downloaded", state, bytes };
+}
@@ -0,0 +1,118 @@
+/**
+ * Planar geometry on longitude/latitude polygons: centroids and
+ * point-in-polygon tests for the boundary scripts. Districts are small enough
+ * that treating degrees as flat coordinates doesn't move the results
+ * noticeably.
+ */
+
+import { PolygonGeometry } from "../../src/contract";
+
+type Ring = number[][];
+
+export interface Bounds {
+  minLng: number;
+  minLat: number;
+  maxLng: number;
+  maxLat: number;
+}
+
+function polygonsOf(geometry: PolygonGeometry): Ring[][] {
+  return geometry.type === "Polygon"
+    ? [geometry.coordinates as Ring[]]
+    : (geometry.coordinates as Ring[][]);
+}
+
+// Signed area and area-weighted centre of a closed ring, by the shoelace formula
+function ringMoments(ring: Ring): { area: number; x: number; y: number } {
+  let area = 0;
+  let x = 0;
+  let y = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [x0, y0] = ring[i];
+    const [x1, y1] = ring[i + 1];
+    const cross = x0 * y1 - x1 * y0;
+    area += cross;
+    x += (x0 + x1) * cross;
+    y += (y0 + y1) * cross;
+  }
+  return { area: area / 2, x, y };
+}
+
+/**
+ * Area-weighted centroid of a polygon or multipolygon, over every part and
+ * with holes taken out. Falls back to the average of the vertices for a
+ * shape with no area. Returns null for an empty geometry.
+ */
+export function polygonCentroid(geometry: PolygonGeometry): { lat: number; lng: number } | null {
+  let totalArea = 0;
+  let sumX = 0;
+  let sumY = 0;
+
+  for (const polygon of polygonsOf(geometry)) {
+    polygon.forEach((ring, index) => {
+      const { area, x, y } = ringMoments(ring);
+      if (area === 0) return;
+      // Rings may be wound either way; the outer ring adds area, holes take it away
+      const weight = index === 0 ? Math.abs(area) : -Math.abs(area);
+      totalArea += weight;
+      // x / (6 * area) is the ring's centroid
+      sumX += (x / (6 * area)) * weight;
+      sumY += (y / (6 * area)) * weight;
+    });
+  }
+
+  if (totalArea > 0) {
+    return { lng: sumX / totalArea, lat: sumY / totalArea };
+  }
+
+  const points = polygonsOf(geometry).flatMap((polygon) => polygon[0] ?? []);
+  if (points.length === 0) {
+    return null;
+  }
+  return {
+    lng: points.reduce((sum, point) => sum + point[0], 0) / points.length,
+    lat: points.reduce((sum, point) => sum + point[1], 0) / points.length,
+  };
+}
+
+/**
+ * Bounding box of a polygon or multipolygon.
+ */
+export function geometryBounds(geometry: PolygonGeometry): Bounds {
+  const bounds = { minLng: Infinity, minLat: Infinity, maxLng: -Infinity, maxLat: -Infinity };
+  for (const polygon of polygonsOf(geometry)) {
+    for (const [lng, lat] of polygon[0] ?? []) {
+      bounds.minLng = Math.min(bounds.minLng, lng);
+      bounds.maxLng = Math.max(bounds.maxLng, lng);
+      bounds.minLat = Math.min(bounds.minLat, lat);
+      bounds.maxLat = Math.max(bounds.maxLat, lat);
+    }
+  }
+  return bounds;
+}
+
+// Ray casting: count the edges a ray from the point crosses
+function ringContains(ring: Ring, lng: number, lat: number): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > lat !== yj > lat && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Whether a point falls inside a polygon or multipolygon: inside the outer
+ * ring of one of its parts and not in any of that part's holes.
+ */
+export function geometryContains(geometry: PolygonGeometry, lng: number, lat: number): boolean {
+  return polygonsOf(geometry).some(
+    ([outer, ...holes]) =>
+      outer !== undefined &&
+      ringContains(outer, lng, lat) &&
+      !holes.some((hole) => ringContains(hole, lng, lat))
+  );
+}
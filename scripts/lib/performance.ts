@@ -0,0 +1,14 @@
+/**
+ * Shared helpers for the DfE performance table scripts.
+ */
+
+/**
+ * Parse a performance table value such as "61%" or "-0.35".
+ * Suppressed or missing values are published as codes such as SUPP, NE, NP
+ * or LOWCOV, and come back as null.
+ */
+export function parsePerformanceValue(value: string | undefined): number | null {
+  if (!value) return null;
+  const number = parseFloat(value.replace("%", "").trim());
+  return isNaN(number) ? null : number;
+}
@@ -0,0 +1,214 @@
+/**
+ * Postcode helpers: splitting postcodes into districts and sectors, a
+ * centroid lookup used to place schools whose GIAS grid reference is missing
+ * or unusable, and the full list of districts to check boundaries against.
+ *
+ * Reads either the ONS Postcode Directory (a single CSV with a header row) or
+ * Code-Point Open (a folder of headerless CSVs, one per postcode area). Both
+ * give British National Grid eastings and northings for each postcode.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as readline from "readline";
+import { parseCSVLine } from "./csv";
+
+export interface GridReference {
+  easting: number;
+  northing: number;
+}
+
+// Code-Point Open column order (the files have no header row)
+const CODEPOINT_POSTCODE_COLUMN = 0;
+const CODEPOINT_EASTING_COLUMN = 2;
+const CODEPOINT_NORTHING_COLUMN = 3;
+
+/**
+ * Normalise a postcode for lookups: upper case with no spaces.
+ */
+export function normalizePostcode(postcode: string): string {
+  return postcode.toUpperCase().replace(/\s+/g, "");
+}
+
+// Full postcode with the space removed, e.g. "SW1A1AA" or "B11AA"
+const POSTCODE_PATTERN = /^[A-Z]{1,2}\d[A-Z\d]?\d[A-Z]{2}$/;
+
+function splitPostcode(postcode: string): { outward: string; inward: string } | null {
+  const normalized = normalizePostcode(postcode);
+  if (!POSTCODE_PATTERN.test(normalized)) {
+    return null;
+  }
+  // The inward code is always the last three characters
+  return { outward: normalized.slice(0, -3), inward: normalized.slice(-3) };
+}
+
+/**
+ * Postcode district of a full postcode: "SW1A 1AA" -> "SW1A".
+ * Returns null for anything that isn't a full postcode.
+ */
+export function extractPostcodeDistrict(postcode: string): string | null {
+  return splitPostcode(postcode)?.outward ?? null;
+}
+
+/**
+ * Postcode sector of a full postcode: "SW1A 1AA" -> "SW1A 1".
+ * Returns null for anything that isn't a full postcode.
+ */
+export function extractPostcodeSector(postcode: string): string | null {
+  const parts = splitPostcode(postcode);
+  return parts ? `${parts.outward} ${parts.inward[0]}` : null;
+}
+
+function parseGridReference(easting: string, northing: string): GridReference | null {
+  const e = parseInt(easting, 10);
+  const n = parseInt(northing, 10);
+  // Postcodes without a grid reference have blank or zero values
+  if (isNaN(e) || isNaN(n) || (e === 0 && n === 0)) {
+    return null;
+  }
+  return { easting: e, northing: n };
+}
+
+async function* readLines(filePath: string): AsyncGenerator<string> {
+  const rl = readline.createInterface({
+    input: fs.createReadStream(filePath, { encoding: "utf-8" }),
+    crlfDelay: Infinity,
+  });
+  for await (const line of rl) {
+    yield line;
+  }
+}
+
+async function readOnspd(
+  filePath: string,
+  wanted: Set<string>,
+  found: Map<string, GridReference>
+): Promise<void> {
+  let columns: { postcode: number; easting: number; northing: number } | null = null;
+
+  for await (const line of readLines(filePath)) {
+    const fields = parseCSVLine(line);
+
+    if (!columns) {
+      const header = fields.map((field) => field.trim().toLowerCase());
+      const postcode = header.findIndex((name) => name === "pcds" || name === "pcd");
+      const easting = header.indexOf("oseast1m");
+      const northing = header.indexOf("osnrth1m");
+      if (postcode === -1 || easting === -1 || northing === -1) {
+        console.log(`  ${filePath} doesn't look like the ONS Postcode Directory, skipping`);
+        return;
+      }
+      columns = { postcode, easting, northing };
+      continue;
+    }
+
+    const postcode = normalizePostcode(fields[columns.postcode] || "");
+    if (!wanted.has(postcode)) continue;
+
+    const grid = parseGridReference(fields[columns.easting], fields[columns.northing]);
+    if (grid) {
+      found.set(postcode, grid);
+    }
+  }
+}
+
+async function readCodePoint(
+  directory: string,
+  wanted: Set<string>,
+  found: Map<string, GridReference>
+): Promise<void> {
+  const files = fs
+    .readdirSync(directory, { recursive: true, encoding: "utf-8" })
+    .filter((name) => name.toLowerCase().endsWith(".csv"))
+    .map((name) => path.join(directory, name));
+
+  for (const file of files) {
+    for await (const line of readLines(file)) {
+      const fields = parseCSVLine(line);
+      const postcode = normalizePostcode(fields[CODEPOINT_POSTCODE_COLUMN] || "");
+      if (!wanted.has(postcode)) continue;
+
+      const grid = parseGridReference(
+        fields[CODEPOINT_EASTING_COLUMN],
+        fields[CODEPOINT_NORTHING_COLUMN]
+      );
+      if (grid) {
+        found.set(postcode, grid);
+      }
+    }
+  }
+}
+
+// ONS country code for England
+const ENGLAND_COUNTRY_CODE = "E92000001";
+
+/**
+ * Postcode districts of the live English postcodes in the ONS Postcode
+ * Directory, for checking a boundary set is complete. Returns null if the
+ * directory isn't there or can't be read.
+ */
+export async function loadPostcodeDistricts(onspdPath: string): Promise<Set<string> | null> {
+  if (!fs.existsSync(onspdPath)) {
+    return null;
+  }
+
+  console.log(`Reading postcode districts from ${onspdPath}...`);
+  const districts = new Set<string>();
+  let columns: { postcode: number; terminated: number; country: number } | null = null;
+
+  for await (const line of readLines(onspdPath)) {
+    const fields = parseCSVLine(line);
+
+    if (!columns) {
+      const header = fields.map((field) => field.trim().toLowerCase());
+      const postcode = header.findIndex((name) => name === "pcds" || name === "pcd");
+      if (postcode === -1) {
+        console.log(`  ${onspdPath} doesn't look like the ONS Postcode Directory, skipping`);
+        return null;
+      }
+      columns = { postcode, terminated: header.indexOf("doterm"), country: header.indexOf("ctry") };
+      continue;
+    }
+
+    // Skip terminated postcodes and those outside England
+    if (columns.terminated !== -1 && fields[columns.terminated]?.trim()) continue;
+    if (columns.country !== -1 && fields[columns.country] !== ENGLAND_COUNTRY_CODE) continue;
+
+    const district = extractPostcodeDistrict(fields[columns.postcode] || "");
+    if (district) {
+      districts.add(district);
+    }
+  }
+
+  return districts;
+}
+
+/**
+ * Look up grid references for the given postcodes. Only the wanted postcodes
+ * are kept, so the multi-million-row directory files are streamed rather than
+ * held in memory. Postcodes that can't be found are left out of the result.
+ */
+export async function loadPostcodeCentroids(
+  postcodes: string[],
+  sources: { onspdPath: string; codePointDir: string }
+): Promise<Map<string, GridReference>> {
+  const wanted = new Set(postcodes.map(normalizePostcode).filter((postcode) => postcode !== ""));
+  const found = new Map<string, GridReference>();
+  if (wanted.size === 0) {
+    return found;
+  }
+
+  if (fs.existsSync(sources.onspdPath)) {
+    console.log(`Reading postcode centroids from ${sources.onspdPath}...`);
+    await readOnspd(sources.onspdPath, wanted, found);
+  }
+
+  // Fill any gaps from Code-Point Open
+  if (found.size < wanted.size && fs.existsSync(sources.codePointDir)) {
+    console.log(`Reading postcode centroids from ${sources.codePointDir}...`);
+    const remaining = new Set(Array.from(wanted).filter((postcode) => !found.has(postcode)));
+    await readCodePoint(sources.codePointDir, remaining, found);
+  }
+
+  return found;
+}
@@ -0,0 +1,46 @@
+/**
+ * Coordinate reference systems used by the source data, and conversion from
+ * British National Grid to the WGS84 longitude and latitude the app uses.
+ */
+
+import proj4 from "proj4";
+import { BoundaryFeature } from "../../src/contract";
+
+// British National Grid (EPSG:27700)
+export const BNG =
+  "+proj=tmerc +lat_0=49 +lon_0=-2 +k=0.9996012717 +x_0=400000 +y_0=-100000 +ellps=airy +towgs84=446.448,-125.157,542.06,0.15,0.247,0.842,-20.489 +units=m +no_defs";
+// WGS84 (EPSG:4326)
+export const WGS84 = "+proj=longlat +datum=WGS84 +no_defs";
+
+// The coordinate systems boundary files can be read in
+export type CoordinateSystem = "wgs84" | "bng";
+
+const bngToWgs84Converter = proj4(BNG, WGS84);
+
+/**
+ * Convert a British National Grid easting and northing to [lng, lat].
+ */
+export function bngToWgs84(easting: number, northing: number): [number, number] {
+  const [lng, lat] = bngToWgs84Converter.forward([easting, northing]);
+  return [lng, lat];
+}
+
+/**
+ * Whether a coordinate is in grid metres rather than degrees. Anything out of
+ * longitude and latitude range is taken to be British National Grid.
+ */
+export function isGridCoordinate(coordinate: number[]): boolean {
+  return Math.abs(coordinate[0]) > 180 || Math.abs(coordinate[1]) > 90;
+}
+
+/**
+ * Reproject a polygon feature from British National Grid to WGS84.
+ */
+export function reprojectFeature<P>(feature: BoundaryFeature<P>): BoundaryFeature<P> {
+  const ring = (points: number[][]) => points.map(([x, y]) => bngToWgs84(x, y));
+  const coordinates =
+    feature.geometry.type === "Polygon"
+      ? (feature.geometry.coordinates as number[][][]).map(ring)
+      : (feature.geometry.coordinates as number[][][][]).map((polygon) => polygon.map(ring));
+  return { ...feature, geometry: { type: feature.geometry.type, coordinates } };
+}
@@ -0,0 +1,218 @@
+/**
+ * Minimal ESRI shapefile reader for boundary sets such as the ONS postcode
+ * boundaries. Reads polygon shapes from the .shp file and their attributes
+ * from the .dbf file next to it, and returns them as GeoJSON features in the
+ * shapefile's own coordinates (see the .prj file for which system that is).
+ *
+ * Only polygon shape types are supported; Z and M values are dropped.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { CoordinateSystem } from "./projection";
+import { GeoJSONCollection, GeoJSONFeature } from "./simplify";
+
+const SHP_FILE_CODE = 9994;
+const SHP_HEADER_BYTES = 100;
+const SHAPE_NULL = 0;
+// Polygon, PolygonZ and PolygonM all start with the same 2D layout
+const POLYGON_SHAPE_TYPES = new Set([5, 15, 25]);
+
+const DBF_HEADER_BYTES = 32;
+const DBF_FIELD_BYTES = 32;
+const DBF_FIELD_TERMINATOR = 0x0d;
+const DBF_DELETED = 0x2a; // "*"
+
+interface DbfField {
+  name: string;
+  type: string;
+  length: number;
+}
+
+type Ring = number[][];
+
+function siblingPath(shpPath: string, extension: string): string | null {
+  const base = shpPath.replace(/\.shp$/i, "");
+  for (const candidate of [`${base}.${extension}`, `${base}.${extension.toUpperCase()}`]) {
+    if (fs.existsSync(candidate)) return candidate;
+  }
+  return null;
+}
+
+// Twice the signed area; negative for clockwise rings, which are outer rings in a shapefile
+function signedArea(ring: Ring): number {
+  let area = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    area += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return area;
+}
+
+function ringContains(ring: Ring, [x, y]: number[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Group a shape's rings into polygons: each clockwise ring starts a polygon,
+ * and each counter-clockwise ring is a hole in the polygon that contains it.
+ */
+function ringsToGeometry(rings: Ring[]): GeoJSONFeature["geometry"] | null {
+  const polygons: Ring[][] = [];
+  const holes: Ring[] = [];
+  for (const ring of rings) {
+    if (signedArea(ring) <= 0) {
+      polygons.push([ring]);
+    } else {
+      holes.push(ring);
+    }
+  }
+
+  for (const hole of holes) {
+    const container = polygons.find((polygon) => ringContains(polygon[0], hole[0]));
+    if (container) {
+      container.push(hole);
+    } else {
+      // Wound the wrong way round rather than a hole
+      polygons.push([hole]);
+    }
+  }
+
+  if (polygons.length === 0) return null;
+  return polygons.length === 1
+    ? { type: "Polygon", coordinates: polygons[0] }
+    : { type: "MultiPolygon", coordinates: polygons };
+}
+
+function readShapes(buffer: Buffer): (GeoJSONFeature["geometry"] | null)[] {
+  if (buffer.readInt32BE(0) !== SHP_FILE_CODE) {
+    throw new Error("Not a shapefile (bad file code)");
+  }
+
+  const shapes: (GeoJSONFeature["geometry"] | null)[] = [];
+  let offset = SHP_HEADER_BYTES;
+  while (offset + 8 <= buffer.length) {
+    // Record lengths are in 16-bit words
+    const contentBytes = buffer.readInt32BE(offset + 4) * 2;
+    const content = offset + 8;
+    offset = content + contentBytes;
+
+    const shapeType = buffer.readInt32LE(content);
+    if (shapeType === SHAPE_NULL) {
+      shapes.push(null);
+      continue;
+    }
+    if (!POLYGON_SHAPE_TYPES.has(shapeType)) {
+      throw new Error(`Unsupported shape type ${shapeType}; only polygons can be read`);
+    }
+
+    // Skip the shape's bounding box
+    const partCount = buffer.readInt32LE(content + 36);
+    const pointCount = buffer.readInt32LE(content + 40);
+    const partsStart = content + 44;
+    const pointsStart = partsStart + partCount * 4;
+
+    const rings: Ring[] = [];
+    for (let part = 0; part < partCount; part++) {
+      const start = buffer.readInt32LE(partsStart + part * 4);
+      const end = part + 1 < partCount ? buffer.readInt32LE(partsStart + (part + 1) * 4) : pointCount;
+      const ring: Ring = [];
+      for (let point = start; point < end; point++) {
+        const pointOffset = pointsStart + point * 16;
+        ring.push([buffer.readDoubleLE(pointOffset), buffer.readDoubleLE(pointOffset + 8)]);
+      }
+      if (ring.length >= 4) rings.push(ring);
+    }
+    shapes.push(ringsToGeometry(rings));
+  }
+  return shapes;
+}
+
+function readAttributes(buffer: Buffer, encoding: BufferEncoding): Record<string, unknown>[] {
+  const recordCount = buffer.readUInt32LE(4);
+  const headerBytes = buffer.readUInt16LE(8);
+  const recordBytes = buffer.readUInt16LE(10);
+
+  const fields: DbfField[] = [];
+  for (let offset = DBF_HEADER_BYTES; buffer[offset] !== DBF_FIELD_TERMINATOR; offset += DBF_FIELD_BYTES) {
+    const nameBytes = buffer.subarray(offset, offset + 11);
+    const nameEnd = nameBytes.indexOf(0);
+    fields.push({
+      name: nameBytes.toString("latin1", 0, nameEnd === -1 ? 11 : nameEnd),
+      type: String.fromCharCode(buffer[offset + 11]),
+      length: buffer[offset + 16],
+    });
+  }
+
+  const records: Record<string, unknown>[] = [];
+  for (let index = 0; index < recordCount; index++) {
+    const start = headerBytes + index * recordBytes;
+    // Deleted records still have a shape, so keep their place
+    const deleted = buffer[start] === DBF_DELETED;
+    const record: Record<string, unknown> = {};
+    let offset = start + 1;
+    for (const field of fields) {
+      const raw = buffer.toString(encoding, offset, offset + field.length).trim();
+      offset += field.length;
+      if (deleted) continue;
+      if (field.type === "N" || field.type === "F") {
+        record[field.name] = raw === "" ? null : parseFloat(raw);
+      } else {
+        record[field.name] = raw;
+      }
+    }
+    records.push(record);
+  }
+  return records;
+}
+
+/**
+ * The coordinate system a shapefile's .prj declares. Returns null if there's
+ * no .prj file, and throws for a system other than WGS84 or British National
+ * Grid, whose coordinates would otherwise be read as the wrong thing.
+ */
+export function shapefileCrs(shpPath: string): CoordinateSystem | null {
+  const prjPath = siblingPath(shpPath, "prj");
+  if (!prjPath) return null;
+  const prj = fs.readFileSync(prjPath, "utf-8").trim();
+  if (/British_National_Grid|OSGB[ _]?1936|27700/i.test(prj)) {
+    return "bng";
+  }
+  // Longitude and latitude on WGS84, not projected
+  if (/^GEOGCS\[/i.test(prj) && /WGS[ _]?(19)?84|4326/i.test(prj)) {
+    return "wgs84";
+  }
+  const name = prj.match(/^\w+\["([^"]*)"/)?.[1] ?? "an unrecognised system";
+  throw new Error(
+    `${path.basename(prjPath)} declares ${name}; only WGS84 and British National Grid can be read`
+  );
+}
+
+/**
+ * Read a polygon shapefile and its attributes. Shapes without geometry are
+ * left out.
+ */
+export function readShapefile(shpPath: string): GeoJSONCollection {
+  const shapes = readShapes(fs.readFileSync(shpPath));
+
+  const dbfPath = siblingPath(shpPath, "dbf");
+  const cpgPath = siblingPath(shpPath, "cpg");
+  // Attribute text is Latin-1 unless a .cpg file says otherwise
+  const encoding: BufferEncoding =
+    cpgPath && /utf-?8/i.test(fs.readFileSync(cpgPath, "utf-8")) ? "utf-8" : "latin1";
+  const attributes = dbfPath ? readAttributes(fs.readFileSync(dbfPath), encoding) : [];
+
+  const features: GeoJSONFeature[] = [];
+  shapes.forEach((geometry, index) => {
+    if (!geometry) return;
+    features.push({ type: "Feature", properties: attributes[index] ?? {}, geometry });
+  });
+  return { type: "FeatureCollection", features };
+}
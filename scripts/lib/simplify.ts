@@ -0,0 +1,155 @@
+/**
+ * Shared geometry simplification helpers for the boundary scripts.
+ *
+ * Polygons are simplified ring by ring with Douglas-Peucker, then
+ * coordinates are rounded to keep the output small.
+ */
+
+import { BoundaryFeature } from "../../src/contract";
+
+// Features as read from source files, before their properties are normalised
+export type GeoJSONFeature = BoundaryFeature<Record<string, unknown>>;
+
+export interface GeoJSONCollection {
+  type: "FeatureCollection";
+  features: GeoJSONFeature[];
+}
+
+export function simplifyRing(ring: number[][], tolerance: number): number[][] {
+  if (ring.length < 4) return ring;
+
+  // Douglas-Peucker simplification
+  function rdp(
+    points: number[][],
+    start: number,
+    end: number,
+    result: Set<number>
+  ): void {
+    if (end <= start + 1) return;
+
+    let maxDist = 0;
+    let maxIndex = start;
+
+    const startPt = points[start];
+    const endPt = points[end];
+
+    for (let i = start + 1; i < end; i++) {
+      const dist = perpendicularDistance(points[i], startPt, endPt);
+      if (dist > maxDist) {
+        maxDist = dist;
+        maxIndex = i;
+      }
+    }
+
+    if (maxDist > tolerance) {
+      result.add(maxIndex);
+      rdp(points, start, maxIndex, result);
+      rdp(points, maxIndex, end, result);
+    }
+  }
+
+  const keep = new Set<number>([0, ring.length - 1]);
+  rdp(ring, 0, ring.length - 1, keep);
+
+  const indices = Array.from(keep).sort((a, b) => a - b);
+  return indices.map((i) => ring[i]);
+}
+
+function perpendicularDistance(
+  point: number[],
+  lineStart: number[],
+  lineEnd: number[]
+): number {
+  const dx = lineEnd[0] - lineStart[0];
+  const dy = lineEnd[1] - lineStart[1];
+
+  if (dx === 0 && dy === 0) {
+    return Math.sqrt(
+      Math.pow(point[0] - lineStart[0], 2) +
+        Math.pow(point[1] - lineStart[1], 2)
+    );
+  }
+
+  const t =
+    ((point[0] - lineStart[0]) * dx + (point[1] - lineStart[1]) * dy) /
+    (dx * dx + dy * dy);
+  const nearestX = lineStart[0] + t * dx;
+  const nearestY = lineStart[1] + t * dy;
+
+  return Math.sqrt(
+    Math.pow(point[0] - nearestX, 2) + Math.pow(point[1] - nearestY, 2)
+  );
+}
+
+export function simplifyFeature<P>(
+  feature: BoundaryFeature<P>,
+  tolerance: number
+): BoundaryFeature<P> {
+  const geom = feature.geometry;
+
+  if (geom.type === "Polygon") {
+    const coords = geom.coordinates as number[][][];
+    return {
+      ...feature,
+      geometry: {
+        ...geom,
+        coordinates: coords.map((ring) => simplifyRing(ring, tolerance)),
+      },
+    };
+  } else if (geom.type === "MultiPolygon") {
+    const coords = geom.coordinates as number[][][][];
+    return {
+      ...feature,
+      geometry: {
+        ...geom,
+        coordinates: coords.map((polygon) =>
+          polygon.map((ring) => simplifyRing(ring, tolerance))
+        ),
+      },
+    };
+  }
+
+  return feature;
+}
+
+export function roundCoordinates<P>(
+  feature: BoundaryFeature<P>,
+  precision: number
+): BoundaryFeature<P> {
+  const factor = Math.pow(10, precision);
+
+  function roundCoord(coord: number[]): number[] {
+    return [
+      Math.round(coord[0] * factor) / factor,
+      Math.round(coord[1] * factor) / factor,
+    ];
+  }
+
+  function roundRing(ring: number[][]): number[][] {
+    return ring.map(roundCoord);
+  }
+
+  const geom = feature.geometry;
+
+  if (geom.type === "Polygon") {
+    const coords = geom.coordinates as number[][][];
+    return {
+      ...feature,
+      geometry: {
+        ...geom,
+        coordinates: coords.map(roundRing),
+      },
+    };
+  } else if (geom.type === "MultiPolygon") {
+    const coords = geom.coordinates as number[][][][];
+    return {
+      ...feature,
+      geometry: {
+        ...geom,
+        coordinates: coords.map((polygon) => polygon.map(roundRing)),
+      },
+    };
+  }
+
+  return feature;
+}
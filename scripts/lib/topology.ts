@@ -0,0 +1,216 @@
+/**
+ * Shared-arc topology for boundary sets.
+ *
+ * Simplifying each ring on its own moves a border shared by two districts
+ * differently on each side, leaving slivers and gaps. Here rings are first
+ * cut into arcs at junctions (points where the neighbouring rings change),
+ * each arc is stored once and referenced by both sides, and the arcs are
+ * simplified instead of the rings. The result is the same structure TopoJSON
+ * uses, so it can be written out as TopoJSON or turned back into GeoJSON.
+ */
+
+import {
+  ArtifactHeader,
+  BoundaryFeature,
+  BoundaryTopology,
+  TopologyGeometry,
+} from "../../src/contract";
+import { decodeTopology } from "../../src/utils/topojson";
+import { simplifyRing } from "./simplify";
+
+// A boundary topology before it's given an artifact header
+export type Topology<P> = Omit<BoundaryTopology<P>, keyof ArtifactHeader>;
+
+type Ring = number[][];
+
+function pointKey(point: number[]): string {
+  return `${point[0]},${point[1]}`;
+}
+
+function lineKey(line: Ring): string {
+  return line.map(pointKey).join(" ");
+}
+
+function polygonsOf<P>(feature: BoundaryFeature<P>): Ring[][] {
+  return feature.geometry.type === "Polygon"
+    ? [feature.geometry.coordinates as Ring[]]
+    : (feature.geometry.coordinates as Ring[][]);
+}
+
+// Rings without the repeated closing point
+function openRing(ring: Ring): Ring {
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  return first[0] === last[0] && first[1] === last[1] ? ring.slice(0, -1) : ring;
+}
+
+/**
+ * Find the points where rings meet or part: a point is a junction if it's
+ * reached from different neighbours in different places.
+ */
+function findJunctions(rings: Ring[]): Set<string> {
+  const neighbours = new Map<string, string>();
+  const junctions = new Set<string>();
+
+  for (const ring of rings) {
+    const n = ring.length;
+    for (let i = 0; i < n; i++) {
+      const key = pointKey(ring[i]);
+      const pair = [pointKey(ring[(i + n - 1) % n]), pointKey(ring[(i + 1) % n])]
+        .sort()
+        .join(";");
+      const seen = neighbours.get(key);
+      if (seen === undefined) {
+        neighbours.set(key, pair);
+      } else if (seen !== pair) {
+        junctions.add(key);
+      }
+    }
+  }
+
+  return junctions;
+}
+
+// Cut an open ring into arcs that start and end at junctions
+function cutRing(ring: Ring, junctions: Set<string>): Ring[] {
+  const start = ring.findIndex((point) => junctions.has(pointKey(point)));
+
+  if (start === -1) {
+    // No junctions: the whole ring is one arc. Start it at the smallest point
+    // so the same ring from either side gives the same (or reversed) arc.
+    let smallest = 0;
+    for (let i = 1; i < ring.length; i++) {
+      const [x, y] = ring[i];
+      const [sx, sy] = ring[smallest];
+      if (x < sx || (x === sx && y < sy)) smallest = i;
+    }
+    const rotated = [...ring.slice(smallest), ...ring.slice(0, smallest)];
+    return [[...rotated, rotated[0]]];
+  }
+
+  const rotated = [...ring.slice(start), ...ring.slice(0, start), ring[start]];
+  const arcs: Ring[] = [];
+  let current: Ring = [rotated[0]];
+  for (let i = 1; i < rotated.length; i++) {
+    current.push(rotated[i]);
+    if (junctions.has(pointKey(rotated[i]))) {
+      arcs.push(current);
+      current = [rotated[i]];
+    }
+  }
+  return arcs;
+}
+
+/**
+ * Build a topology from polygon features. Coordinates must match exactly
+ * where neighbours meet, which holds for boundary sets cut from one source.
+ */
+export function buildTopology<P>(features: BoundaryFeature<P>[]): Topology<P> {
+  const rings = features.flatMap((feature) => polygonsOf(feature).flat().map(openRing));
+  const junctions = findJunctions(rings);
+
+  const arcs: Ring[] = [];
+  const arcIndex = new Map<string, number>();
+
+  // Index of an arc, storing it if it's new; ~index means the arc reversed
+  function addArc(arc: Ring): number {
+    const forward = arcIndex.get(lineKey(arc));
+    if (forward !== undefined) return forward;
+    const backward = arcIndex.get(lineKey([...arc].reverse()));
+    if (backward !== undefined) return ~backward;
+
+    arcs.push(arc);
+    arcIndex.set(lineKey(arc), arcs.length - 1);
+    return arcs.length - 1;
+  }
+
+  const geometries: TopologyGeometry<P>[] = features.map((feature) => {
+    const polygons = polygonsOf(feature).map((polygon) =>
+      polygon.map((ring) => cutRing(openRing(ring), junctions).map(addArc))
+    );
+    return feature.geometry.type === "Polygon"
+      ? { type: "Polygon", properties: feature.properties, arcs: polygons[0] }
+      : { type: "MultiPolygon", properties: feature.properties, arcs: polygons };
+  });
+
+  return {
+    type: "Topology",
+    arcs,
+    objects: { boundaries: { type: "GeometryCollection", geometries } },
+  };
+}
+
+function simplifyArc(arc: Ring, tolerance: number): Ring {
+  const simplified = simplifyRing(arc, tolerance);
+  const closed = pointKey(arc[0]) === pointKey(arc[arc.length - 1]);
+
+  if (closed) {
+    // A closed arc is a whole ring, which needs at least four points
+    return simplified.length >= 4 ? simplified : arc;
+  }
+
+  // Keep one interior point, so a ring made of two arcs can't collapse to a line
+  if (simplified.length === 2 && arc.length > 2) {
+    let farthest = 1;
+    let farthestDistance = -1;
+    for (let i = 1; i < arc.length - 1; i++) {
+      const distance = Math.hypot(arc[i][0] - arc[0][0], arc[i][1] - arc[0][1]);
+      if (distance > farthestDistance) {
+        farthest = i;
+        farthestDistance = distance;
+      }
+    }
+    return [arc[0], arc[farthest], arc[arc.length - 1]];
+  }
+  return simplified;
+}
+
+/**
+ * Simplify every arc once, with Douglas-Peucker. Arc ends are junctions and
+ * are never moved, so shared borders stay shared.
+ */
+export function simplifyTopology<P>(topology: Topology<P>, tolerance: number): Topology<P> {
+  return { ...topology, arcs: topology.arcs.map((arc) => simplifyArc(arc, tolerance)) };
+}
+
+/**
+ * Turn a topology back into GeoJSON features.
+ */
+export function topologyToFeatures<P>(topology: Topology<P>): BoundaryFeature<P>[] {
+  return decodeTopology(topology);
+}
+
+/**
+ * Quantize and delta-encode the arcs, as TopoJSON does, on a grid of the
+ * given number of decimal places. Shrinks the file and drops arc points that
+ * round onto the previous one.
+ */
+export function encodeTopology<P>(topology: Topology<P>, precision: number): Topology<P> {
+  const step = Math.pow(10, -precision);
+  const translate: [number, number] = [Infinity, Infinity];
+  for (const arc of topology.arcs) {
+    for (const [x, y] of arc) {
+      translate[0] = Math.min(translate[0], x);
+      translate[1] = Math.min(translate[1], y);
+    }
+  }
+
+  const arcs = topology.arcs.map((arc) => {
+    const encoded: number[][] = [];
+    let previousX = 0;
+    let previousY = 0;
+    arc.forEach((point, index) => {
+      const x = Math.round((point[0] - translate[0]) / step);
+      const y = Math.round((point[1] - translate[1]) / step);
+      const last = index === arc.length - 1;
+      // Always keep both ends, which other arcs join on
+      if (index > 0 && !last && x === previousX && y === previousY) return;
+      encoded.push([x - previousX, y - previousY]);
+      previousX = x;
+      previousY = y;
+    });
+    return encoded;
+  });
+
+  return { ...topology, transform: { scale: [step, step], translate }, arcs };
+}
@@ -0,0 +1,38 @@
+/**
+ * Validation helpers shared by the pipeline scripts.
+ */
+
+import * as fs from "fs";
+import { ArtifactName, checkArtifactVersion } from "../../src/contract";
+import { ValidationIssue, formatIssues } from "../../src/schema";
+
+/**
+ * Stop the script before writing if its output doesn't match the schema.
+ */
+export function assertValid(artifact: string, issues: ValidationIssue[]): void {
+  if (issues.length === 0) return;
+
+  console.error("");
+  console.error(`${artifact} failed validation (${issues.length} issues):`);
+  console.error(formatIssues(issues));
+  console.error(`Not writing ${artifact}.`);
+  process.exit(1);
+}
+
+/**
+ * Read an artifact written by an earlier step. Returns null if the file is
+ * missing or was written in a different format version.
+ */
+export function readArtifact<T>(artifact: ArtifactName, filePath: string): T | null {
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  const data: unknown = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  const versionProblem = checkArtifactVersion(artifact, data);
+  if (versionProblem) {
+    console.log(versionProblem);
+    return null;
+  }
+  return data as T;
+}
@@ -1,24 +1,109 @@
 /**
- * Download and simplify postcode district boundaries.
+ * Download and simplify postcode district boundaries, and simplify postcode
+ * sector boundaries if they've been downloaded.
  *
- * Data source: UK Postcode Polygons (GitHub)
+ * Data source (districts): UK Postcode Polygons (GitHub)
  * https://github.com/missinglink/uk-postcode-polygons
  * License: CC BY-SA 3.0 (Wikipedia contributors)
  *
+ * Or, with --source, any local district boundary set: a GeoJSON file, an
+ * ESRI shapefile such as the ONS postcode boundaries, or a directory of
+ * either (e.g. a clone of the repository above). The district is read from
+ * whichever property holds a value like "SW1A". Sources in British National
+ * Grid are reprojected to WGS84.
+ *
+ * Data source (sectors, optional): any postcode sector boundary set in
+ * GeoJSON, e.g. GeoLytix Postal Boundaries Open, saved as
+ * data/postcode-sectors.geojson. The sector is read from whichever property
+ * holds a value like "SW1A 1".
+ *
+ * The districts found are checked against those that schools are in, and
+ * every live English district in data/onspd.csv if present; any without a
+ * boundary are listed in a completeness report.
+ *
+ * Boundaries are simplified on a shared-arc topology, so neighbouring areas
+ * keep an identical border instead of leaving slivers and gaps. Districts are
+ * written at three levels of detail, which the heat map picks from by zoom.
+ *
  * Usage:
  *   npm run process-boundaries
+ *   npm run process-boundaries -- --topojson   # Write TopoJSON, about half the size
+ *   npm run process-boundaries -- --source data/postcode-districts   # Read local files
  *
  * Output:
- *   src/data/postcode-districts.json
+ *   src/data/postcode-districts.json (medium detail)
+ *   src/data/postcode-districts-low.json
+ *   src/data/postcode-districts-high.json
+ *   src/data/postcode-sectors.json (empty if no sector boundaries were found)
+ *   data/reports/missing-districts.csv
  */
 
 import * as fs from "fs";
 import * as path from "path";
-
-const OUTPUT_PATH = path.join(
-  import.meta.dirname,
-  "../src/data/postcode-districts.json"
-);
+import {
+  ArtifactName,
+  BoundaryArtifact,
+  BoundaryFeature,
+  DISTRICT_BOUNDARY_FILES,
+  DistrictProperties,
+  SchoolsArtifact,
+  SectorProperties,
+  createArtifactHeader,
+} from "../src/contract";
+import { validateBoundaries, validateSectorBoundaries } from "../src/schema";
+import { BOUNDARY_DETAILS, BoundaryDetail } from "../src/types";
+import { assertValid, readArtifact } from "./lib/validation";
+import { extractPostcodeDistrict, loadPostcodeDistricts } from "./lib/postcodes";
+import { isGridCoordinate, reprojectFeature } from "./lib/projection";
+import { readShapefile, shapefileCrs } from "./lib/shapefile";
+import { GeoJSONFeature, GeoJSONCollection, roundCoordinates } from "./lib/simplify";
+import {
+  Topology,
+  buildTopology,
+  encodeTopology,
+  simplifyTopology,
+  topologyToFeatures,
+} from "./lib/topology";
+
+const OUTPUT_DIR = path.join(import.meta.dirname, "../src/data");
+
+const SECTOR_INPUT_PATH = path.join(import.meta.dirname, "../data/postcode-sectors.geojson");
+const SCHOOLS_PATH = path.join(OUTPUT_DIR, "schools.json");
+const ONSPD_PATH = path.join(import.meta.dirname, "../data/onspd.csv");
+const REPORT_PATH = path.join(import.meta.dirname, "../data/reports/missing-districts.csv");
+
+const TOPOJSON = process.argv.includes("--topojson");
+
+// Local district boundaries to read instead of downloading
+const SOURCE = optionValue("--source");
+
+// Each postcode area is retried, waiting a little longer each time
+const FETCH_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 2000;
+
+// Simplification tolerance in degrees, and decimal places coordinates are
+// rounded to, for each level of detail of the district boundaries
+const DISTRICT_DETAIL: Record<BoundaryDetail, { tolerance: number; precision: number }> = {
+  low: { tolerance: 0.002, precision: 3 }, // ~200m, for the whole of England
+  medium: { tolerance: 0.0005, precision: 4 }, // ~50m
+  high: { tolerance: 0.0001, precision: 5 }, // ~10m, for street level
+};
+
+// Sectors are only shown zoomed in, so keep more detail (~20m) than medium districts
+const SECTOR_TOLERANCE = 0.0002;
+const SECTOR_PRECISION = 4;
+
+// District names look like "SW1A" or "B1"
+const DISTRICT_PATTERN = /^[A-Z]{1,2}\d[A-Z\d]?$/;
+
+// Sector names look like "SW1A 1"; some sources drop the space. Without the
+// space a district such as "E14" reads as a sector too ("E1 4"), so that's
+// only accepted from a property named as the sector.
+const SECTOR_PATTERN = /^([A-Z]{1,2}\d[A-Z\d]?) (\d)$/;
+const UNSPACED_SECTOR_PATTERN = /^([A-Z]{1,2}\d[A-Z\d]?) ?(\d)$/;
+
+// Property names that hold the sector, such as "sector" or GeoLytix's "PostSect"
+const SECTOR_PROPERTY_PATTERN = /sect/i;
 
 const GITHUB_API_URL =
   "https://api.github.com/repos/missinglink/uk-postcode-polygons/contents/geojson";
@@ -30,18 +115,15 @@ interface GitHubFile {
   download_url: string;
 }
 
-interface GeoJSONFeature {
-  type: "Feature";
-  properties: Record<string, unknown>;
-  geometry: {
-    type: string;
-    coordinates: number[][][] | number[][][][];
-  };
+interface DistrictSource {
+  features: BoundaryFeature<DistrictProperties>[];
+  // Postcode areas that couldn't be downloaded
+  failedAreas: string[];
 }
 
-interface GeoJSONCollection {
-  type: "FeatureCollection";
-  features: GeoJSONFeature[];
+function optionValue(name: string): string | null {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? null : (process.argv[index + 1] ?? null);
 }
 
 async function fetchFileList(): Promise<string[]> {
@@ -65,216 +147,355 @@ async function fetchFileList(): Promise<string[]> {
 
 async function fetchAreaGeoJSON(area: string): Promise<GeoJSONCollection> {
   const url = `${RAW_BASE_URL}/${area}.geojson`;
-  const response = await fetch(url);
 
-  if (!response.ok) {
-    throw new Error(`Failed to fetch ${area}: ${response.status}`);
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      return (await response.json()) as GeoJSONCollection;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      if (attempt >= FETCH_ATTEMPTS) {
+        throw new Error(`Failed to fetch ${area}: ${message}`);
+      }
+      console.log(`  ${area}: ${message}, retrying...`);
+      await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS * attempt));
+    }
   }
-
-  return (await response.json()) as GeoJSONCollection;
 }
 
-function simplifyRing(ring: number[][], tolerance: number): number[][] {
-  if (ring.length < 4) return ring;
-
-  // Douglas-Peucker simplification
-  function rdp(
-    points: number[][],
-    start: number,
-    end: number,
-    result: Set<number>
-  ): void {
-    if (end <= start + 1) return;
-
-    let maxDist = 0;
-    let maxIndex = start;
-
-    const startPt = points[start];
-    const endPt = points[end];
-
-    for (let i = start + 1; i < end; i++) {
-      const dist = perpendicularDistance(points[i], startPt, endPt);
-      if (dist > maxDist) {
-        maxDist = dist;
-        maxIndex = i;
-      }
+function extractDistrictName(feature: GeoJSONFeature): string | null {
+  // uk-postcode-polygons uses { name: "SW1" }; other sources name the property differently
+  const props = feature.properties ?? {};
+  for (const value of [props.name, props.district, ...Object.values(props)]) {
+    if (typeof value !== "string") continue;
+    const name = value.trim().toUpperCase();
+    if (DISTRICT_PATTERN.test(name)) {
+      return name;
     }
+  }
+  return null;
+}
 
-    if (maxDist > tolerance) {
-      result.add(maxIndex);
-      rdp(points, start, maxIndex, result);
-      rdp(points, maxIndex, end, result);
+function extractSectorName(feature: GeoJSONFeature): string | null {
+  const entries = Object.entries(feature.properties ?? {});
+  // A property named as the sector first, then any property that looks like one
+  const candidates = [
+    ...entries
+      .filter(([key]) => SECTOR_PROPERTY_PATTERN.test(key))
+      .map(([, value]) => ({ value, pattern: UNSPACED_SECTOR_PATTERN })),
+    ...entries.map(([, value]) => ({ value, pattern: SECTOR_PATTERN })),
+  ];
+  for (const { value, pattern } of candidates) {
+    if (typeof value !== "string") continue;
+    const match = value.trim().toUpperCase().match(pattern);
+    if (match) {
+      return `${match[1]} ${match[2]}`;
     }
   }
+  return null;
+}
+
+function firstCoordinate(feature: GeoJSONFeature): number[] | undefined {
+  return feature.geometry.type === "Polygon"
+    ? (feature.geometry.coordinates as number[][][])[0]?.[0]
+    : (feature.geometry.coordinates as number[][][][])[0]?.[0]?.[0];
+}
+
+/**
+ * Read the polygon features of a GeoJSON file or shapefile, reprojected to
+ * WGS84 if they're in British National Grid.
+ */
+function readBoundaryFile(filePath: string): GeoJSONFeature[] {
+  const isShapefile = /\.shp$/i.test(filePath);
+  const collection: GeoJSONCollection = isShapefile
+    ? readShapefile(filePath)
+    : JSON.parse(fs.readFileSync(filePath, "utf-8"));
+
+  const features = (collection.features ?? []).filter(
+    (feature) =>
+      feature.geometry?.type === "Polygon" || feature.geometry?.type === "MultiPolygon"
+  );
+  if (features.length === 0) {
+    return features;
+  }
 
-  const keep = new Set<number>([0, ring.length - 1]);
-  rdp(ring, 0, ring.length - 1, keep);
+  // Trust a shapefile's .prj; otherwise go by the coordinates
+  const declared = isShapefile ? shapefileCrs(filePath) : null;
+  const first = firstCoordinate(features[0]);
+  const isBng = declared ? declared === "bng" : first !== undefined && isGridCoordinate(first);
+  if (!isBng) {
+    return features;
+  }
+  console.log(`  Reprojecting ${path.basename(filePath)} from British National Grid`);
+  return features.map(reprojectFeature);
+}
 
-  const indices = Array.from(keep).sort((a, b) => a - b);
-  return indices.map((i) => ring[i]);
+function listBoundaryFiles(source: string): string[] {
+  if (!fs.statSync(source).isDirectory()) {
+    return [source];
+  }
+  return fs
+    .readdirSync(source, { recursive: true, encoding: "utf-8" })
+    .filter((name) => /\.(geojson|json|shp)$/i.test(name))
+    .sort()
+    .map((name) => path.join(source, name));
 }
 
-function perpendicularDistance(
-  point: number[],
-  lineStart: number[],
-  lineEnd: number[]
-): number {
-  const dx = lineEnd[0] - lineStart[0];
-  const dy = lineEnd[1] - lineStart[1];
-
-  if (dx === 0 && dy === 0) {
-    return Math.sqrt(
-      Math.pow(point[0] - lineStart[0], 2) +
-        Math.pow(point[1] - lineStart[1], 2)
-    );
+function toDistrictFeatures(features: GeoJSONFeature[]): {
+  districts: BoundaryFeature<DistrictProperties>[];
+  unnamed: number;
+} {
+  const districts: BoundaryFeature<DistrictProperties>[] = [];
+  let unnamed = 0;
+  for (const feature of features) {
+    const district = extractDistrictName(feature);
+    if (district) {
+      districts.push({ ...feature, properties: { district } });
+    } else {
+      unnamed++;
+    }
   }
+  return { districts, unnamed };
+}
 
-  const t =
-    ((point[0] - lineStart[0]) * dx + (point[1] - lineStart[1]) * dy) /
-    (dx * dx + dy * dy);
-  const nearestX = lineStart[0] + t * dx;
-  const nearestY = lineStart[1] + t * dy;
+async function downloadDistricts(): Promise<DistrictSource> {
+  // Get list of postcode areas
+  const areas = await fetchFileList();
+  console.log(`Found ${areas.length} postcode areas`);
 
-  return Math.sqrt(
-    Math.pow(point[0] - nearestX, 2) + Math.pow(point[1] - nearestY, 2)
-  );
+  // Fetch all areas and merge features
+  const features: BoundaryFeature<DistrictProperties>[] = [];
+  const failedAreas: string[] = [];
+  let fetchedCount = 0;
+
+  for (const area of areas) {
+    try {
+      const geojson = await fetchAreaGeoJSON(area);
+      features.push(...toDistrictFeatures(geojson.features).districts);
+
+      fetchedCount++;
+      if (fetchedCount % 20 === 0) {
+        console.log(`  Fetched ${fetchedCount}/${areas.length} areas (${features.length} districts)...`);
+      }
+    } catch (err) {
+      console.warn(`  ${err instanceof Error ? err.message : err}`);
+      failedAreas.push(area);
+    }
+  }
+
+  return { features, failedAreas };
 }
 
-function simplifyFeature(
-  feature: GeoJSONFeature,
-  tolerance: number
-): GeoJSONFeature {
-  const geom = feature.geometry;
-
-  if (geom.type === "Polygon") {
-    const coords = geom.coordinates as number[][][];
-    return {
-      ...feature,
-      geometry: {
-        ...geom,
-        coordinates: coords.map((ring) => simplifyRing(ring, tolerance)),
-      },
-    };
-  } else if (geom.type === "MultiPolygon") {
-    const coords = geom.coordinates as number[][][][];
-    return {
-      ...feature,
-      geometry: {
-        ...geom,
-        coordinates: coords.map((polygon) =>
-          polygon.map((ring) => simplifyRing(ring, tolerance))
-        ),
-      },
-    };
+function readLocalDistricts(source: string): DistrictSource {
+  if (!fs.existsSync(source)) {
+    throw new Error(`Boundary source not found: ${source}`);
+  }
+
+  const files = listBoundaryFiles(source);
+  console.log(`Reading district boundaries from ${files.length} files in ${source}...`);
+
+  const features: BoundaryFeature<DistrictProperties>[] = [];
+  let unnamed = 0;
+  for (const file of files) {
+    const result = toDistrictFeatures(readBoundaryFile(file));
+    features.push(...result.districts);
+    unnamed += result.unnamed;
+  }
+  if (unnamed > 0) {
+    console.log(`  Skipped ${unnamed} features without a postcode district name`);
   }
 
-  return feature;
+  return { features, failedAreas: [] };
 }
 
-function roundCoordinates(
-  feature: GeoJSONFeature,
-  precision: number
-): GeoJSONFeature {
-  const factor = Math.pow(10, precision);
-
-  function roundCoord(coord: number[]): number[] {
-    return [
-      Math.round(coord[0] * factor) / factor,
-      Math.round(coord[1] * factor) / factor,
-    ];
+/**
+ * Combine features for the same district, which some sources split by part,
+ * into one multipolygon.
+ */
+function mergeDuplicateDistricts(
+  features: BoundaryFeature<DistrictProperties>[]
+): BoundaryFeature<DistrictProperties>[] {
+  const byDistrict = new Map<string, BoundaryFeature<DistrictProperties>[]>();
+  for (const feature of features) {
+    const parts = byDistrict.get(feature.properties.district);
+    if (parts) {
+      parts.push(feature);
+    } else {
+      byDistrict.set(feature.properties.district, [feature]);
+    }
   }
 
-  function roundRing(ring: number[][]): number[][] {
-    return ring.map(roundCoord);
+  return Array.from(byDistrict.values()).map((parts) => {
+    if (parts.length === 1) return parts[0];
+    const coordinates = parts.flatMap((part) =>
+      part.geometry.type === "Polygon"
+        ? [part.geometry.coordinates as number[][][]]
+        : (part.geometry.coordinates as number[][][][])
+    );
+    return { ...parts[0], geometry: { type: "MultiPolygon", coordinates } };
+  });
+}
+
+function postcodeArea(district: string): string {
+  return district.match(/^[A-Z]+/)?.[0] ?? district;
+}
+
+/**
+ * List the districts that schools are in, or that the ONS Postcode Directory
+ * has live English postcodes in, but which have no boundary.
+ */
+async function writeCompletenessReport(
+  districts: Set<string>,
+  failedAreas: string[]
+): Promise<void> {
+  const schools = readArtifact<SchoolsArtifact>("schools.json", SCHOOLS_PATH);
+  const schoolCounts = new Map<string, number>();
+  for (const school of schools?.schools ?? []) {
+    const district = extractPostcodeDistrict(school.postcode);
+    if (district) {
+      schoolCounts.set(district, (schoolCounts.get(district) || 0) + 1);
+    }
+  }
+  const directory = await loadPostcodeDistricts(ONSPD_PATH);
+
+  const expected = new Set([...schoolCounts.keys(), ...(directory ?? [])]);
+  const failed = new Set(failedAreas);
+  const missing = Array.from(expected)
+    .filter((district) => !districts.has(district))
+    .sort();
+
+  const lines = ["district,schools,reason"];
+  for (const district of missing) {
+    const reason = failed.has(postcodeArea(district)) ? "area failed to download" : "not in source";
+    lines.push(`${district},${schoolCounts.get(district) ?? 0},${reason}`);
   }
+  fs.mkdirSync(path.dirname(REPORT_PATH), { recursive: true });
+  fs.writeFileSync(REPORT_PATH, lines.join("\n") + "\n");
 
-  const geom = feature.geometry;
-
-  if (geom.type === "Polygon") {
-    const coords = geom.coordinates as number[][][];
-    return {
-      ...feature,
-      geometry: {
-        ...geom,
-        coordinates: coords.map(roundRing),
-      },
-    };
-  } else if (geom.type === "MultiPolygon") {
-    const coords = geom.coordinates as number[][][][];
-    return {
-      ...feature,
-      geometry: {
-        ...geom,
-        coordinates: coords.map((polygon) => polygon.map(roundRing)),
-      },
-    };
+  console.log("\nCompleteness:");
+  if (expected.size === 0) {
+    console.log("  Nothing to check against - run 'npm run process-data' first, or add data/onspd.csv");
+    return;
   }
+  const missingSchools = missing.reduce((sum, district) => sum + (schoolCounts.get(district) ?? 0), 0);
+  console.log(`  Checked against: schools.json${directory ? " and the ONS Postcode Directory" : ""}`);
+  console.log(`  ${missing.length} of ${expected.size} districts have no boundary (${missingSchools} schools)`);
+  console.log(`  Missing districts listed in ${REPORT_PATH}`);
+}
+
+/**
+ * Simplify boundaries along their shared arcs, then write them out as GeoJSON
+ * or, with --topojson, as quantized TopoJSON.
+ */
+function simplifyBoundaries<P>(
+  artifact: ArtifactName,
+  topology: Topology<P>,
+  tolerance: number,
+  precision: number
+): BoundaryArtifact<P> {
+  const simplified = simplifyTopology(topology, tolerance);
 
-  return feature;
+  const header = createArtifactHeader(artifact);
+  if (TOPOJSON) {
+    return { ...header, ...encodeTopology(simplified, precision) };
+  }
+  return {
+    type: "FeatureCollection",
+    ...header,
+    features: topologyToFeatures(simplified).map((f) => roundCoordinates(f, precision)),
+  };
 }
 
-function extractDistrictName(feature: GeoJSONFeature): string {
-  // The features have properties like { name: "SW1" } or similar
-  const props = feature.properties;
-  return (props.name as string) || (props.district as string) || "Unknown";
+function writeBoundaries<P>(artifact: ArtifactName, output: BoundaryArtifact<P>): void {
+  const outputPath = path.join(OUTPUT_DIR, artifact);
+  console.log(`  ${artifact}: ${(JSON.stringify(output).length / 1024 / 1024).toFixed(2)} MB`);
+  fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+  fs.writeFileSync(outputPath, JSON.stringify(output));
 }
 
-async function main() {
-  try {
-    // Get list of postcode areas
-    const areas = await fetchFileList();
-    console.log(`Found ${areas.length} postcode areas`);
-
-    // Fetch all areas and merge features
-    const allFeatures: GeoJSONFeature[] = [];
-    let fetchedCount = 0;
-
-    for (const area of areas) {
-      try {
-        const geojson = await fetchAreaGeoJSON(area);
-
-        for (const feature of geojson.features) {
-          // Normalize the district property
-          const district = extractDistrictName(feature);
-          allFeatures.push({
-            ...feature,
-            properties: { district },
-          });
-        }
-
-        fetchedCount++;
-        if (fetchedCount % 20 === 0) {
-          console.log(
-            `  Fetched ${fetchedCount}/${areas.length} areas (${allFeatures.length} districts)...`
-          );
-        }
-      } catch (err) {
-        console.warn(`  Warning: Failed to fetch ${area}:`, err);
+function processSectors(): void {
+  const features: BoundaryFeature<SectorProperties>[] = [];
+
+  if (!fs.existsSync(SECTOR_INPUT_PATH)) {
+    console.log(`Sector boundaries not found: ${SECTOR_INPUT_PATH}`);
+    console.log("The heat map will stay at district level. To add sectors:");
+    console.log("1. Download a postcode sector boundary set, e.g. GeoLytix Postal Boundaries Open");
+    console.log("2. Convert it to GeoJSON if needed");
+    console.log("3. Save as data/postcode-sectors.geojson");
+  } else {
+    console.log("Reading postcode sector boundaries...");
+    let skipped = 0;
+    for (const feature of readBoundaryFile(SECTOR_INPUT_PATH)) {
+      const sector = extractSectorName(feature);
+      if (!sector) {
+        skipped++;
+        continue;
       }
+      features.push({ ...feature, properties: { sector } });
     }
+    console.log(`Total sectors: ${features.length} (skipped ${skipped} without a sector name)`);
+    console.log("Simplifying geometry...");
+  }
 
-    console.log(`Total districts: ${allFeatures.length}`);
+  // Always written, so the app builds without sector boundaries
+  const output = simplifyBoundaries(
+    "postcode-sectors.json",
+    buildTopology(features),
+    SECTOR_TOLERANCE,
+    SECTOR_PRECISION
+  );
+  assertValid("postcode-sectors.json", validateSectorBoundaries(output));
+  console.log(`Written to ${OUTPUT_DIR}:`);
+  writeBoundaries("postcode-sectors.json", output);
+}
 
-    // Simplify geometry (tolerance in degrees, ~0.0005 = ~50m)
-    console.log("Simplifying geometry...");
-    const simplified = allFeatures.map((f) => simplifyFeature(f, 0.0005));
+async function main() {
+  try {
+    const { features, failedAreas } = SOURCE
+      ? readLocalDistricts(SOURCE)
+      : await downloadDistricts();
+    const allFeatures = mergeDuplicateDistricts(features);
+    console.log(`Total districts: ${allFeatures.length}`);
 
-    // Round coordinates to 4 decimal places (~11m precision)
-    const rounded = simplified.map((f) => roundCoordinates(f, 4));
+    await writeCompletenessReport(
+      new Set(allFeatures.map((feature) => feature.properties.district)),
+      failedAreas
+    );
 
-    const geojson: GeoJSONCollection = {
-      type: "FeatureCollection",
-      features: rounded,
-    };
+    // Don't replace a complete set of boundaries with one missing whole areas
+    if (failedAreas.length > 0) {
+      console.error(`\n${failedAreas.length} postcode areas failed to download: ${failedAreas.join(", ")}`);
+      console.error("Not writing boundaries. Re-run, or use --source to read local files.");
+      process.exit(1);
+    }
+    if (allFeatures.length === 0) {
+      console.error("\nNo district boundaries found. Not writing boundaries.");
+      process.exit(1);
+    }
 
-    // Calculate sizes
-    const simplifiedSize = JSON.stringify(geojson).length;
-    console.log(`Output size: ${(simplifiedSize / 1024 / 1024).toFixed(2)} MB`);
+    // Build the topology once, then simplify it for each level of detail
+    console.log("Simplifying geometry...");
+    const topology = buildTopology(allFeatures);
+    console.log(`Shared arcs: ${topology.arcs.length}`);
+
+    // Validate every level before writing any, so the levels can't get out of step
+    const levels = BOUNDARY_DETAILS.map(({ value }) => {
+      const artifact = DISTRICT_BOUNDARY_FILES[value];
+      const { tolerance, precision } = DISTRICT_DETAIL[value];
+      const output = simplifyBoundaries(artifact, topology, tolerance, precision);
+      assertValid(artifact, validateBoundaries(output, artifact));
+      return { artifact, output };
+    });
+    console.log(`Written to ${OUTPUT_DIR}:`);
+    for (const { artifact, output } of levels) {
+      writeBoundaries(artifact, output);
+    }
 
-    // Write output
-    fs.mkdirSync(path.dirname(OUTPUT_PATH), { recursive: true });
-    fs.writeFileSync(OUTPUT_PATH, JSON.stringify(geojson));
-    console.log(`Written to ${OUTPUT_PATH}`);
+    console.log("");
+    processSectors();
   } catch (error) {
     console.error("Error processing boundaries:", error);
     process.exit(1);
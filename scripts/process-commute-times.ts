@@ -1,23 +1,42 @@
 /**
- * Calculate estimated commute times to London for each postcode district.
+ * Calculate estimated commute times to London for each postcode district,
+ * and each postcode sector if sector boundaries have been processed.
  *
- * Uses a distance-based estimation from district centroid to central London,
- * with different speed factors for rail vs road travel.
+ * Uses a distance-based estimation from each area's centroid (area-weighted,
+ * over all of its parts) to central London, with different speed factors for
+ * rail vs road travel.
  *
  * Usage:
  *   npm run process-commute-times
  *
  * Output:
  *   Updates src/data/district-metrics.json with commuteMinutes values
+ *   for districts and sectors
  */
 
 import * as fs from "fs";
 import * as path from "path";
+import {
+  BoundaryFeature,
+  DistrictMetricsArtifact,
+  DistrictMetricsMap,
+  PostcodeDistrictsArtifact,
+  PostcodeSectorsArtifact,
+  createArtifactHeader,
+} from "../src/contract";
+import { validateDistrictMetrics } from "../src/schema";
+import { boundaryFeatures } from "../src/utils/topojson";
+import { polygonCentroid } from "./lib/geometry";
+import { assertValid, readArtifact } from "./lib/validation";
 
 const BOUNDARIES_PATH = path.join(
   import.meta.dirname,
   "../src/data/postcode-districts.json"
 );
+const SECTOR_BOUNDARIES_PATH = path.join(
+  import.meta.dirname,
+  "../src/data/postcode-sectors.json"
+);
 const OUTPUT_PATH = path.join(
   import.meta.dirname,
   "../src/data/district-metrics.json"
@@ -36,61 +55,6 @@ const FIXED_OVERHEAD_MINS = 20; // Walking to station, waiting, etc.
 const INNER_LONDON_RADIUS_KM = 30;
 const INNER_LONDON_SPEED_KMH = 30;
 
-interface DistrictMetrics {
-  medianPrice: number | null;
-  commuteMinutes: number | null;
-}
-
-interface GeoJSONFeature {
-  type: "Feature";
-  properties: {
-    district: string;
-  };
-  geometry: {
-    type: "Polygon" | "MultiPolygon";
-    coordinates: number[][][] | number[][][][];
-  };
-}
-
-interface GeoJSONCollection {
-  type: "FeatureCollection";
-  features: GeoJSONFeature[];
-}
-
-function calculateCentroid(
-  geometry: GeoJSONFeature["geometry"]
-): { lat: number; lng: number } | null {
-  let coords: number[][];
-
-  if (geometry.type === "Polygon") {
-    // Use the outer ring (first ring)
-    coords = geometry.coordinates[0] as number[][];
-  } else if (geometry.type === "MultiPolygon") {
-    // Use the first polygon's outer ring
-    coords = (geometry.coordinates[0] as number[][][])[0];
-  } else {
-    return null;
-  }
-
-  if (!coords || coords.length === 0) {
-    return null;
-  }
-
-  // Simple centroid calculation (average of all points)
-  let sumLng = 0;
-  let sumLat = 0;
-
-  for (const coord of coords) {
-    sumLng += coord[0];
-    sumLat += coord[1];
-  }
-
-  return {
-    lng: sumLng / coords.length,
-    lat: sumLat / coords.length,
-  };
-}
-
 function haversineDistance(
   lat1: number,
   lng1: number,
@@ -133,39 +97,26 @@ function estimateCommuteTime(distanceKm: number): number {
   return Math.round(FIXED_OVERHEAD_MINS + travelTime);
 }
 
-async function main() {
-  // Check if boundaries file exists
-  if (!fs.existsSync(BOUNDARIES_PATH)) {
-    console.log(`Boundaries file not found: ${BOUNDARIES_PATH}`);
-    console.log("Please run: npm run process-boundaries");
-    return;
-  }
-
-  console.log("Reading postcode district boundaries...");
-  const geojson: GeoJSONCollection = JSON.parse(
-    fs.readFileSync(BOUNDARIES_PATH, "utf-8")
-  );
-
-  console.log(`Processing ${geojson.features.length} districts...`);
-
-  // Load existing metrics or create new
-  let metrics: Record<string, DistrictMetrics> = {};
-  if (fs.existsSync(OUTPUT_PATH)) {
-    metrics = JSON.parse(fs.readFileSync(OUTPUT_PATH, "utf-8"));
-  }
-
+/**
+ * Set commuteMinutes for each boundary, keyed by the name `nameOf` returns.
+ */
+function addCommuteTimes<P>(
+  features: BoundaryFeature<P>[],
+  nameOf: (properties: P) => string,
+  metrics: DistrictMetricsMap
+): { processed: number; skipped: number } {
   let processed = 0;
   let skipped = 0;
 
-  for (const feature of geojson.features) {
-    const district = feature.properties.district;
+  for (const feature of features) {
+    const name = nameOf(feature.properties);
 
-    if (!district) {
+    if (!name) {
       skipped++;
       continue;
     }
 
-    const centroid = calculateCentroid(feature.geometry);
+    const centroid = polygonCentroid(feature.geometry);
     if (!centroid) {
       skipped++;
       continue;
@@ -178,20 +129,69 @@ async function main() {
       LONDON_CENTER.lng
     );
 
-    const commuteMinutes = estimateCommuteTime(distanceKm);
-
-    if (!metrics[district]) {
-      metrics[district] = { medianPrice: null, commuteMinutes: null };
+    if (!metrics[name]) {
+      metrics[name] = { medianPrice: null, commuteMinutes: null };
     }
-    metrics[district].commuteMinutes = commuteMinutes;
+    metrics[name].commuteMinutes = estimateCommuteTime(distanceKm);
     processed++;
   }
 
-  console.log(`Processed ${processed} districts (skipped ${skipped})`);
+  return { processed, skipped };
+}
+
+async function main() {
+  console.log("Reading postcode district boundaries...");
+  const geojson = readArtifact<PostcodeDistrictsArtifact>(
+    "postcode-districts.json",
+    BOUNDARIES_PATH
+  );
+  if (!geojson) {
+    console.log(`Boundaries file missing or out of date: ${BOUNDARIES_PATH}`);
+    console.log("Please run: npm run process-boundaries");
+    return;
+  }
+
+  const districtFeatures = boundaryFeatures(geojson);
+  console.log(`Processing ${districtFeatures.length} districts...`);
+
+  // Load existing metrics or create new
+  const existing = readArtifact<DistrictMetricsArtifact>("district-metrics.json", OUTPUT_PATH);
+  const metrics: DistrictMetricsMap = existing?.districts ?? {};
+  const sectorMetrics: DistrictMetricsMap = existing?.sectors ?? {};
+
+  const districts = addCommuteTimes(
+    districtFeatures,
+    (properties) => properties.district,
+    metrics
+  );
+  console.log(`Processed ${districts.processed} districts (skipped ${districts.skipped})`);
+
+  // Sector boundaries are optional, so sectors are only filled in if they've been processed
+  const sectorBoundaries = readArtifact<PostcodeSectorsArtifact>(
+    "postcode-sectors.json",
+    SECTOR_BOUNDARIES_PATH
+  );
+  const sectorFeatures = sectorBoundaries ? boundaryFeatures(sectorBoundaries) : [];
+  if (sectorFeatures.length > 0) {
+    const sectors = addCommuteTimes(
+      sectorFeatures,
+      (properties) => properties.sector,
+      sectorMetrics
+    );
+    console.log(`Processed ${sectors.processed} sectors (skipped ${sectors.skipped})`);
+  } else {
+    console.log("No sector boundaries, skipping sector commute times");
+  }
 
   // Write output
+  const output: DistrictMetricsArtifact = {
+    ...createArtifactHeader("district-metrics.json"),
+    districts: metrics,
+    sectors: sectorMetrics,
+  };
+  assertValid("district-metrics.json", validateDistrictMetrics(output));
   fs.mkdirSync(path.dirname(OUTPUT_PATH), { recursive: true });
-  fs.writeFileSync(OUTPUT_PATH, JSON.stringify(metrics, null, 2));
+  fs.writeFileSync(OUTPUT_PATH, JSON.stringify(output, null, 2));
   console.log(`Written to ${OUTPUT_PATH}`);
 
   // Print some statistics
@@ -210,4 +210,7 @@ async function main() {
   );
 }
 
-main().catch(console.error);
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -1,13 +1,44 @@
 import { parse } from "csv-parse/sync";
+import { createHash } from "crypto";
 import * as fs from "fs";
-import proj4 from "proj4";
-
-// Define coordinate systems
-// British National Grid (EPSG:27700)
-const BNG =
-  "+proj=tmerc +lat_0=49 +lon_0=-2 +k=0.9996012717 +x_0=400000 +y_0=-100000 +ellps=airy +towgs84=446.448,-125.157,542.06,0.15,0.247,0.842,-20.489 +units=m +no_defs";
-// WGS84 (EPSG:4326)
-const WGS84 = "+proj=longlat +datum=WGS84 +no_defs";
+import * as path from "path";
+import { OfstedReportCard, School, SchoolsArtifact, createArtifactHeader } from "../src/contract";
+import { ENGLAND_BOUNDING_BOX, validateSchools } from "../src/schema";
+import {
+  AdmissionsPolicy,
+  FundingType,
+  GenderIntake,
+  LocationPrecision,
+  OfstedArea,
+  OfstedAreaJudgements,
+  OfstedRating,
+  PhaseOfEducation,
+  ReligiousCharacter,
+  ReportCardArea,
+  ReportCardGrade,
+  ReportCardGrades,
+  SafeguardingJudgement,
+  SchoolStatus,
+  SchoolType,
+  SenProvision,
+  SixthFormProvision,
+  PHASES,
+  REPORT_CARD_GRADES,
+  SCHOOL_STATUSES,
+} from "../src/types";
+import { loadPostcodeCentroids, normalizePostcode } from "./lib/postcodes";
+import { bngToWgs84 } from "./lib/projection";
+import { assertValid } from "./lib/validation";
+
+// Postcode centroid sources for schools without a usable grid reference
+const ONSPD_PATH = "data/onspd.csv";
+const CODEPOINT_DIR = "data/codepoint-open";
+const UNPLACEABLE_REPORT_PATH = "data/reports/unplaceable-schools.csv";
+
+// Snapshot of the schools from the previous GIAS extract, for diff-snapshots
+const PREVIOUS_SNAPSHOT_PATH = "data/schools-previous.json";
+// Hash of the GIAS extract src/data/schools.json was last built from
+const GIAS_HASH_PATH = "data/schools-gias.sha256";
 
 interface RawSchool {
   URN: string;
@@ -15,8 +46,19 @@ interface RawSchool {
   "TypeOfEstablishment (name)": string;
   "EstablishmentTypeGroup (name)": string;
   "EstablishmentStatus (name)": string;
+  CloseDate: string;
+  "ReasonEstablishmentClosed (name)": string;
   "PhaseOfEducation (name)": string;
   "AdmissionsPolicy (name)": string;
+  "Gender (name)": string;
+  "OfficialSixthForm (name)": string;
+  "ReligiousCharacter (name)": string;
+  "ReligiousEthos (name)": string;
+  "LA (code)": string;
+  "LA (name)": string;
+  "GSSLACode (name)": string;
+  "Trusts (code)": string;
+  "Trusts (name)": string;
   "StatutoryLowAge": string;
   "StatutoryHighAge": string;
   Easting: string;
@@ -27,40 +69,102 @@ interface RawSchool {
   Town: string;
   "County (name)": string;
   Postcode: string;
+  NumberOfPupils: string;
+  SchoolCapacity: string;
+  PercentageFSM: string;
+  "TypeOfResourcedProvision (name)": string;
+  ResourcedProvisionCapacity: string;
+  ResourcedProvisionOnRoll: string;
+  SenUnitCapacity: string;
+  SenUnitOnRoll: string;
+  [senNeedColumn: `SEN${number} (name)`]: string;
 }
 
 interface OfstedRecord {
   school_urn: string;
   ofsted_overall_effectiveness: string;
+  inspection_start_date?: string;
+  inspection_type?: string;
+  previous_ofsted_overall_effectiveness?: string;
+  quality_of_education?: string;
+  behaviour_and_attitudes?: string;
+  personal_development?: string;
+  effectiveness_of_leadership_and_management?: string;
+  early_years_provision?: string;
+  sixth_form_provision?: string;
+  // Report card inspections
+  inclusion?: string;
+  curriculum_and_teaching?: string;
+  achievement?: string;
+  attendance_and_behaviour?: string;
+  personal_development_and_well_being?: string;
+  leadership_and_governance?: string;
+  early_years?: string;
+  sixth_form?: string;
+  safeguarding_standards?: string;
 }
 
-interface ProcessedSchool {
-  urn: string;
-  name: string;
-  type: string;
-  phase: string;
-  funding: string;
-  admissions: string;
-  status: string;
-  lat: number;
-  lng: number;
-  address: string;
-  postcode: string;
-  ofsted: string;
+// School census figures from the DfE performance tables (england_census.csv)
+interface CensusRecord {
+  URN: string;
+  PNUMEAL: string; // % of pupils with English as an additional language
+  PSENELSE: string; // % of pupils on SEN support
+  PSENELK: string; // % of pupils with an EHC plan
 }
 
-function normalizeSchoolType(type: string, typeGroup: string): string {
+// Ofsted CSV column holding each area judgement, keyed by the area name used in School
+const OFSTED_AREA_COLUMNS: Record<OfstedArea, keyof OfstedRecord> = {
+  qualityOfEducation: "quality_of_education",
+  behaviourAndAttitudes: "behaviour_and_attitudes",
+  personalDevelopment: "personal_development",
+  leadershipAndManagement: "effectiveness_of_leadership_and_management",
+  earlyYears: "early_years_provision",
+  sixthForm: "sixth_form_provision",
+};
+
+// Ofsted CSV column holding each report card grade, keyed by the area name used in School
+const REPORT_CARD_COLUMNS: Record<ReportCardArea, keyof OfstedRecord> = {
+  inclusion: "inclusion",
+  curriculumAndTeaching: "curriculum_and_teaching",
+  achievement: "achievement",
+  attendanceAndBehaviour: "attendance_and_behaviour",
+  personalDevelopment: "personal_development_and_well_being",
+  leadershipAndGovernance: "leadership_and_governance",
+  earlyYears: "early_years",
+  sixthForm: "sixth_form",
+};
+
+// Establishment type groups run by academy trusts. Special and alternative
+// provision academies are in these groups too, whatever their type.
+const ACADEMY_TYPE_GROUPS = ["Academies", "Free Schools"];
+
+// Establishment types that are special schools, whichever group GIAS puts them in
+const SPECIAL_SCHOOL_TYPES = [
+  "Academy special converter",
+  "Academy special sponsor led",
+  "Free schools special",
+  "Community special school",
+  "Foundation special school",
+  "Non-maintained special school",
+  "Other independent special school",
+];
+
+function normalizeSchoolType(type: string, typeGroup: string): SchoolType {
+  // Special schools first, so special academies and independent special
+  // schools aren't lumped in with mainstream ones
+  if (SPECIAL_SCHOOL_TYPES.includes(type)) {
+    return "Special School";
+  }
+
   // Handle independent schools
   if (typeGroup === "Independent schools") {
     return "Independent";
   }
 
   // Map various school types to our filter categories
-  const typeMap: Record<string, string> = {
+  const typeMap: Record<string, SchoolType> = {
     "Academy converter": "Academy",
     "Academy sponsor led": "Academy",
-    "Academy special converter": "Academy",
-    "Academy special sponsor led": "Academy",
     "Academy alternative provision converter": "Academy",
     "Academy alternative provision sponsor led": "Academy",
     "Community school": "Community School",
@@ -69,21 +173,50 @@ function normalizeSchoolType(type: string, typeGroup: string): string {
     "Voluntary controlled school": "Voluntary Controlled",
     "Free schools": "Free School",
     "Free schools alternative provision": "Free School",
-    "Free schools special": "Free School",
     "Studio schools": "Free School",
     "University technical college": "Free School",
   };
   return typeMap[type] || "Other";
 }
 
-function getFundingType(typeGroup: string): string {
+function getFundingType(typeGroup: string): FundingType {
   if (typeGroup === "Independent schools") {
     return "Independent";
   }
   return "State";
 }
 
-function normalizeAdmissionsPolicy(policy: string): string {
+function normalizeSenProvision(type: string, provisionType: string): SenProvision {
+  if (SPECIAL_SCHOOL_TYPES.includes(type)) {
+    return "Special school";
+  }
+
+  const provisionMap: Record<string, SenProvision> = {
+    "Resourced provision": "Resourced provision",
+    "SEN unit": "SEN unit",
+    "Resourced provision and SEN unit": "Resourced provision and SEN unit",
+  };
+  return provisionMap[provisionType] || "None";
+}
+
+function extractSenNeeds(school: RawSchool): string[] {
+  // GIAS lists the types of need catered for across columns SEN1 to SEN13
+  const needs: string[] = [];
+  for (let i = 1; i <= 13; i++) {
+    const need = school[`SEN${i} (name)`]?.trim();
+    if (need && need !== "Not applicable") {
+      needs.push(need);
+    }
+  }
+  return needs;
+}
+
+function sumPlaces(...values: string[]): number | null {
+  const places = values.map((v) => parseCount(v)).filter((v): v is number => v !== null);
+  return places.length > 0 ? places.reduce((a, b) => a + b, 0) : null;
+}
+
+function normalizeAdmissionsPolicy(policy: string): AdmissionsPolicy {
   if (policy === "Selective") {
     return "Selective";
   }
@@ -93,13 +226,86 @@ function normalizeAdmissionsPolicy(policy: string): string {
   return "Not applicable";
 }
 
-function derivePhaseFromAge(lowAge: string, highAge: string, explicitPhase: string): string | null {
-  // If explicit phase is Primary or Secondary, use it
-  if (explicitPhase === "Primary" || explicitPhase === "Secondary") {
+function normalizeGender(gender: string): GenderIntake {
+  if (gender === "Girls" || gender === "Boys") {
+    return gender;
+  }
+  // "Mixed", plus "Not applicable" for nurseries and other mixed settings
+  return "Mixed";
+}
+
+function normalizeSixthForm(sixthForm: string): SixthFormProvision {
+  const sixthFormMap: Record<string, SixthFormProvision> = {
+    "Has a sixth form": "Has sixth form",
+    "Does not have a sixth form": "No sixth form",
+    "Not applicable": "Not applicable",
+  };
+  return sixthFormMap[sixthForm] || "Not recorded";
+}
+
+const NO_RELIGIOUS_CHARACTER = ["", "None", "Does not apply", "Not applicable"];
+
+function normalizeReligiousCharacter(character: string, ethos: string): ReligiousCharacter {
+  // Independent schools usually record their faith as an ethos rather than a character
+  const value = NO_RELIGIOUS_CHARACTER.includes(character.trim()) ? ethos.trim() : character.trim();
+
+  if (NO_RELIGIOUS_CHARACTER.includes(value)) {
+    return "None";
+  }
+  if (value.startsWith("Church of England") || value.startsWith("Anglican")) {
+    return "Church of England";
+  }
+  if (value.startsWith("Roman Catholic") || value.startsWith("Catholic")) {
+    return "Roman Catholic";
+  }
+  if (value.includes("Jewish")) {
+    return "Jewish";
+  }
+  if (value.includes("Muslim") || value.includes("Islam")) {
+    return "Muslim";
+  }
+  if (value.includes("Sikh")) {
+    return "Sikh";
+  }
+  if (value.includes("Hindu")) {
+    return "Hindu";
+  }
+
+  const christianDenominations = [
+    "Christian",
+    "Methodist",
+    "Quaker",
+    "Orthodox",
+    "Adventist",
+    "Moravian",
+    "Free Church",
+    "Reformed",
+    "Brethren",
+    "Congregational",
+    "Evangelical",
+    "Baptist",
+  ];
+  if (christianDenominations.some((denomination) => value.includes(denomination))) {
+    return "Other Christian";
+  }
+  return "Other faith";
+}
+
+function isOneOf<T extends string>(values: readonly T[], value: string): value is T {
+  return (values as readonly string[]).includes(value);
+}
+
+function derivePhaseFromAge(
+  lowAge: string,
+  highAge: string,
+  explicitPhase: string
+): PhaseOfEducation | null {
+  // If GIAS gives a usable phase, keep it ("Not applicable" is derived from the age range instead)
+  if (isOneOf(PHASES, explicitPhase)) {
     return explicitPhase;
   }
 
-  // For independent schools, derive from age range
+  // For independent and special schools, derive from age range
   const low = parseInt(lowAge, 10);
   const high = parseInt(highAge, 10);
 
@@ -107,28 +313,29 @@ function derivePhaseFromAge(lowAge: string, highAge: string, explicitPhase: stri
     return null;
   }
 
+  // Nursery: up to age 5
   // Primary: typically ages 4-11
-  // Secondary: typically ages 11-18
-  // If school covers both, categorize by where most of their range falls
-
+  // Secondary: typically ages 11-16/18
+  // 16 plus: sixth-form colleges and similar
+  if (high <= 5) {
+    return "Nursery";
+  }
   if (high <= 11) {
     return "Primary";
   }
+  if (low >= 16) {
+    return "16 plus";
+  }
   if (low >= 11) {
     return "Secondary";
   }
 
-  // All-through schools: categorize based on emphasis
-  // If they start at primary age (4-7), consider primary
-  // If they start at secondary age (11+), consider secondary
-  if (low <= 7) {
-    return "Primary";
-  }
-  return "Secondary";
+  // Anything spanning the move to secondary at 11 (including 3-13 prep schools)
+  return "All-through";
 }
 
-function normalizeOfstedRating(rating: string): string {
-  const ratingMap: Record<string, string> = {
+function normalizeOfstedRating(rating: string): OfstedRating {
+  const ratingMap: Record<string, OfstedRating> = {
     Outstanding: "Outstanding",
     Good: "Good",
     "Requires improvement": "Requires Improvement",
@@ -136,10 +343,178 @@ function normalizeOfstedRating(rating: string): string {
     Inadequate: "Inadequate",
     "Serious Weaknesses": "Inadequate",
     "Special Measures": "Inadequate",
+    // Sub-judgement columns use the numeric grade
+    "1": "Outstanding",
+    "2": "Good",
+    "3": "Requires Improvement",
+    "4": "Inadequate",
   };
   return ratingMap[rating] || "Not yet inspected";
 }
 
+function normalizeReportCardGrade(grade: string): ReportCardGrade | null {
+  const match = REPORT_CARD_GRADES.find((known) => known.toLowerCase() === grade.toLowerCase());
+  return match ?? null;
+}
+
+function normalizeSafeguarding(judgement: string): SafeguardingJudgement | null {
+  const normalized = judgement.toLowerCase();
+  if (normalized === "met") return "Met";
+  if (normalized === "not met") return "Not met";
+  return null;
+}
+
+/**
+ * The report card from a school's latest inspection, or null if it wasn't a
+ * report card inspection.
+ */
+function extractReportCard(record: OfstedRecord | undefined): OfstedReportCard | null {
+  if (!record) {
+    return null;
+  }
+
+  const grades: ReportCardGrades = {};
+  for (const area of Object.keys(REPORT_CARD_COLUMNS) as ReportCardArea[]) {
+    const grade = normalizeReportCardGrade(record[REPORT_CARD_COLUMNS[area]]?.trim() || "");
+    // Skip areas that weren't graded (e.g. no sixth form)
+    if (grade) {
+      grades[area] = grade;
+    }
+  }
+  const safeguarding = normalizeSafeguarding(record.safeguarding_standards?.trim() || "");
+  if (Object.keys(grades).length === 0 && !safeguarding) {
+    return null;
+  }
+  return { grades, safeguarding };
+}
+
+function headlineOfstedRating(
+  record: OfstedRecord | undefined,
+  reportCard: OfstedReportCard | null
+): OfstedRating {
+  const rating = normalizeOfstedRating(record?.ofsted_overall_effectiveness || "");
+  return rating === "Not yet inspected" && reportCard ? "No overall grade" : rating;
+}
+
+function extractOfstedAreas(record: OfstedRecord | undefined): OfstedAreaJudgements {
+  const areas: OfstedAreaJudgements = {};
+  if (!record) {
+    return areas;
+  }
+
+  for (const area of Object.keys(OFSTED_AREA_COLUMNS) as OfstedArea[]) {
+    const column = OFSTED_AREA_COLUMNS[area];
+    const judgement = normalizeOfstedRating(record[column]?.trim() || "");
+    // Skip areas that weren't judged (e.g. no sixth form)
+    if (judgement !== "Not yet inspected") {
+      areas[area] = judgement;
+    }
+  }
+  return areas;
+}
+
+function parseDate(value: string | undefined): string | null {
+  if (!value || value.trim() === "") {
+    return null;
+  }
+  const trimmed = value.trim();
+
+  // Dates come through either as ISO (2019-03-14) or UK format (14/03/2019 or 14-03-2019)
+  const ukMatch = /^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/.exec(trimmed);
+  if (ukMatch) {
+    const [, day, month, year] = ukMatch;
+    return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+  }
+
+  const isoMatch = /^(\d{4})-(\d{2})-(\d{2})/.exec(trimmed);
+  if (isoMatch) {
+    return `${isoMatch[1]}-${isoMatch[2]}-${isoMatch[3]}`;
+  }
+
+  return null;
+}
+
+function normalizeCloseReason(reason: string | undefined): string | null {
+  const trimmed = reason?.trim() || "";
+  if (trimmed === "" || trimmed === "Not applicable" || trimmed === "Not recorded") {
+    return null;
+  }
+  return trimmed;
+}
+
+// A whole number of pupils or places; 0 is a real count, blank is unknown
+function parseCount(value: string | undefined): number | null {
+  const trimmed = (value ?? "").trim();
+  return /^\d+$/.test(trimmed) ? parseInt(trimmed, 10) : null;
+}
+
+function parseAge(value: string): number | null {
+  const age = parseInt(value, 10);
+  return isNaN(age) ? null : age;
+}
+
+function parsePercentage(value: string | undefined): number | null {
+  if (!value) return null;
+  const percent = parseFloat(value.replace("%", "").trim());
+  if (isNaN(percent) || percent < 0 || percent > 100) {
+    return null;
+  }
+  return percent;
+}
+
+function combineSenPercent(record: CensusRecord | undefined): number | null {
+  const support = parsePercentage(record?.PSENELSE);
+  const ehcPlan = parsePercentage(record?.PSENELK);
+  if (support === null && ehcPlan === null) {
+    return null;
+  }
+  return Math.round(((support ?? 0) + (ehcPlan ?? 0)) * 10) / 10;
+}
+
+function calculateFillPercent(pupils: number | null, capacity: number | null): number | null {
+  // A capacity of 0 means the school didn't report one
+  if (pupils === null || capacity === null || capacity === 0) {
+    return null;
+  }
+  return Math.round((pupils / capacity) * 100);
+}
+
+/**
+ * Convert a British National Grid reference to WGS84. Returns null if the
+ * reference is blank, out of range or lands outside the box around England.
+ */
+function gridToLatLng(easting: number, northing: number): { lat: number; lng: number } | null {
+  if (isNaN(easting) || isNaN(northing)) {
+    return null;
+  }
+  if (easting < 0 || easting > 700000 || northing < 0 || northing > 1300000) {
+    return null;
+  }
+
+  try {
+    const [lng, lat] = bngToWgs84(easting, northing);
+    if (
+      lat < ENGLAND_BOUNDING_BOX.minLat ||
+      lat > ENGLAND_BOUNDING_BOX.maxLat ||
+      lng < ENGLAND_BOUNDING_BOX.minLng ||
+      lng > ENGLAND_BOUNDING_BOX.maxLng
+    ) {
+      return null;
+    }
+    return { lat, lng };
+  } catch {
+    return null;
+  }
+}
+
+function schoolGridToLatLng(school: RawSchool): { lat: number; lng: number } | null {
+  return gridToLatLng(parseFloat(school.Easting), parseFloat(school.Northing));
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
 function buildAddress(school: RawSchool): string {
   const parts = [
     school.Street,
@@ -164,24 +539,23 @@ async function processData() {
   console.log(`Total records: ${giasRecords.length}`);
 
   // Filter for schools that are open and either:
-  // 1. Have Primary or Secondary phase explicitly set
-  // 2. Are independent schools (we'll derive phase from age)
-  const validPhases = ["Primary", "Secondary"];
+  // 1. Have a phase of education explicitly set
+  // 2. Are independent or special schools (we'll derive phase from age)
   const filteredSchools = giasRecords.filter((school) => {
     const phase = school["PhaseOfEducation (name)"];
     const status = school["EstablishmentStatus (name)"];
     const typeGroup = school["EstablishmentTypeGroup (name)"];
+    const type = school["TypeOfEstablishment (name)"];
 
-    const isOpen = status === "Open" || status === "Open, but proposed to close";
-    if (!isOpen) return false;
+    if (!isOneOf(SCHOOL_STATUSES, status)) return false;
 
-    // Include if explicit Primary/Secondary phase
-    if (validPhases.includes(phase)) {
+    // Include if explicit phase
+    if (isOneOf(PHASES, phase)) {
       return true;
     }
 
-    // Include independent schools (we'll derive phase from age range)
-    if (typeGroup === "Independent schools") {
+    // Include independent and special schools (we'll derive phase from age range)
+    if (typeGroup === "Independent schools" || SPECIAL_SCHOOL_TYPES.includes(type)) {
       const derivedPhase = derivePhaseFromAge(
         school["StatutoryLowAge"],
         school["StatutoryHighAge"],
@@ -205,92 +579,213 @@ async function processData() {
   });
 
   // Create Ofsted lookup map
-  const ofstedMap = new Map<string, string>();
+  const ofstedMap = new Map<string, OfstedRecord>();
   for (const record of ofstedRecords) {
-    ofstedMap.set(record.school_urn, record.ofsted_overall_effectiveness);
+    ofstedMap.set(record.school_urn, record);
   }
   console.log(`Ofsted records loaded: ${ofstedMap.size}`);
 
-  // Process and convert coordinates
-  console.log("Processing schools and converting coordinates...");
-  const processedSchools: ProcessedSchool[] = [];
-  let skippedNoCoords = 0;
-  let skippedInvalidCoords = 0;
-
-  for (const school of filteredSchools) {
-    const easting = parseFloat(school.Easting);
-    const northing = parseFloat(school.Northing);
-
-    if (isNaN(easting) || isNaN(northing)) {
-      skippedNoCoords++;
-      continue;
+  // Read school census data (optional)
+  const censusMap = new Map<string, CensusRecord>();
+  if (fs.existsSync("data/census_school_level.csv")) {
+    console.log("Reading school census data...");
+    const censusData = fs.readFileSync("data/census_school_level.csv", "utf-8");
+    const censusRecords: CensusRecord[] = parse(censusData, {
+      columns: true,
+      skip_empty_lines: true,
+      relax_column_count: true,
+      bom: true,
+    });
+    for (const record of censusRecords) {
+      if (record.URN) {
+        censusMap.set(record.URN, record);
+      }
     }
+    console.log(`Census records loaded: ${censusMap.size}`);
+  } else {
+    console.log("School census data not found, skipping EAL and SEN percentages");
+  }
 
-    if (easting < 0 || easting > 700000 || northing < 0 || northing > 1300000) {
-      skippedInvalidCoords++;
-      continue;
+  // Schools without a usable grid reference are placed at their postcode centroid instead
+  const needsPostcode = filteredSchools.filter((school) => schoolGridToLatLng(school) === null);
+  let postcodeCentroids = new Map<string, { easting: number; northing: number }>();
+  if (needsPostcode.length > 0) {
+    console.log(`Schools without a usable grid reference: ${needsPostcode.length}`);
+    if (fs.existsSync(ONSPD_PATH) || fs.existsSync(CODEPOINT_DIR)) {
+      postcodeCentroids = await loadPostcodeCentroids(
+        needsPostcode.map((school) => school.Postcode || ""),
+        { onspdPath: ONSPD_PATH, codePointDir: CODEPOINT_DIR }
+      );
+      console.log(`Postcode centroids found: ${postcodeCentroids.size}`);
+    } else {
+      console.log("No postcode directory found, so these schools can't be placed.");
+      console.log(`Save the ONS Postcode Directory CSV as ${ONSPD_PATH}, or extract`);
+      console.log(`Code-Point Open into ${CODEPOINT_DIR}/, to geocode them by postcode.`);
     }
+  }
 
-    try {
-      // Convert from British National Grid to WGS84
-      const [lng, lat] = proj4(BNG, WGS84, [easting, northing]);
-
-      // Validate coordinates are within England bounds
-      if (lat < 49.8 || lat > 55.9 || lng < -6.5 || lng > 2) {
-        skippedInvalidCoords++;
-        continue;
-      }
-
-      const typeGroup = school["EstablishmentTypeGroup (name)"];
-      const phase = derivePhaseFromAge(
-        school["StatutoryLowAge"],
-        school["StatutoryHighAge"],
-        school["PhaseOfEducation (name)"]
-      );
+  // Process and convert coordinates
+  console.log("Processing schools and converting coordinates...");
+  const processedSchools: School[] = [];
+  const unplaceable: { school: RawSchool; reason: string }[] = [];
+  let placedByPostcode = 0;
+  let skippedNoPhase = 0;
 
-      // Skip if we couldn't determine the phase
-      if (!phase) {
-        skippedInvalidCoords++;
+  for (const school of filteredSchools) {
+    let location = schoolGridToLatLng(school);
+    let locationPrecision: LocationPrecision = "exact";
+
+    if (!location) {
+      const postcode = normalizePostcode(school.Postcode || "");
+      const centroid = postcodeCentroids.get(postcode);
+      location = centroid ? gridToLatLng(centroid.easting, centroid.northing) : null;
+      locationPrecision = "postcode";
+
+      if (!location) {
+        const gridProblem =
+          school.Easting?.trim() && school.Northing?.trim()
+            ? "grid reference outside the box around England"
+            : "no grid reference";
+        const postcodeProblem = !postcode
+          ? "no postcode"
+          : centroid
+            ? "postcode centroid outside the box around England"
+            : "postcode not found";
+        unplaceable.push({ school, reason: `${gridProblem}, ${postcodeProblem}` });
         continue;
       }
+      placedByPostcode++;
+    }
 
-      const ofstedRating = ofstedMap.get(school.URN) || "";
-
-      processedSchools.push({
-        urn: school.URN,
-        name: school.EstablishmentName,
-        type: normalizeSchoolType(school["TypeOfEstablishment (name)"], typeGroup),
-        phase,
-        funding: getFundingType(typeGroup),
-        admissions: normalizeAdmissionsPolicy(school["AdmissionsPolicy (name)"]),
-        status: school["EstablishmentStatus (name)"],
-        lat: Math.round(lat * 1000000) / 1000000, // 6 decimal places
-        lng: Math.round(lng * 1000000) / 1000000,
-        address: buildAddress(school),
-        postcode: school.Postcode,
-        ofsted: normalizeOfstedRating(ofstedRating),
-      });
-    } catch (e) {
-      skippedInvalidCoords++;
+    const { lat, lng } = location;
+    const typeGroup = school["EstablishmentTypeGroup (name)"];
+    const phase = derivePhaseFromAge(
+      school["StatutoryLowAge"],
+      school["StatutoryHighAge"],
+      school["PhaseOfEducation (name)"]
+    );
+
+    // Skip if we couldn't determine the phase
+    if (!phase) {
+      skippedNoPhase++;
+      continue;
     }
+
+    const ofsted = ofstedMap.get(school.URN);
+    const reportCard = extractReportCard(ofsted);
+    const pupils = parseCount(school.NumberOfPupils);
+    const capacity = parseCount(school.SchoolCapacity);
+    const census = censusMap.get(school.URN);
+    const ethos = (school["ReligiousEthos (name)"] || "").trim();
+
+    processedSchools.push({
+      urn: school.URN,
+      name: school.EstablishmentName,
+      type: normalizeSchoolType(school["TypeOfEstablishment (name)"], typeGroup),
+      phase,
+      lowAge: parseAge(school["StatutoryLowAge"]),
+      highAge: parseAge(school["StatutoryHighAge"]),
+      funding: getFundingType(typeGroup),
+      academy: ACADEMY_TYPE_GROUPS.includes(typeGroup),
+      admissions: normalizeAdmissionsPolicy(school["AdmissionsPolicy (name)"]),
+      gender: normalizeGender(school["Gender (name)"]),
+      sixthForm: normalizeSixthForm(school["OfficialSixthForm (name)"]),
+      religiousCharacter: normalizeReligiousCharacter(school["ReligiousCharacter (name)"] || "", ethos),
+      religiousEthos: NO_RELIGIOUS_CHARACTER.includes(ethos) ? null : ethos,
+      laName: school["LA (name)"],
+      laCode: school["LA (code)"],
+      laGssCode: school["GSSLACode (name)"]?.trim() || null,
+      trustName: school["Trusts (name)"]?.trim() || null,
+      trustCode: school["Trusts (code)"]?.trim() || null,
+      status: school["EstablishmentStatus (name)"] as SchoolStatus, // Filtered to open above
+      closeDate: parseDate(school.CloseDate),
+      closeReason: normalizeCloseReason(school["ReasonEstablishmentClosed (name)"]),
+      lat: Math.round(lat * 1000000) / 1000000, // 6 decimal places
+      lng: Math.round(lng * 1000000) / 1000000,
+      locationPrecision,
+      address: buildAddress(school),
+      postcode: school.Postcode,
+      ofsted: headlineOfstedRating(ofsted, reportCard),
+      ofstedDate: parseDate(ofsted?.inspection_start_date),
+      ofstedPrevious: normalizeOfstedRating(ofsted?.previous_ofsted_overall_effectiveness || ""),
+      ofstedInspectionType: ofsted?.inspection_type?.trim() || null,
+      ofstedAreas: extractOfstedAreas(ofsted),
+      ofstedReportCard: reportCard,
+      pupils,
+      capacity,
+      fillPercent: calculateFillPercent(pupils, capacity),
+      fsmPercent: parsePercentage(school.PercentageFSM),
+      ealPercent: parsePercentage(census?.PNUMEAL),
+      senPercent: combineSenPercent(census),
+      senProvision: normalizeSenProvision(
+        school["TypeOfEstablishment (name)"],
+        school["TypeOfResourcedProvision (name)"]
+      ),
+      senPlaces: sumPlaces(school.ResourcedProvisionCapacity, school.SenUnitCapacity),
+      senOnRoll: sumPlaces(school.ResourcedProvisionOnRoll, school.SenUnitOnRoll),
+      senNeeds: extractSenNeeds(school),
+      ks2: null, // Filled in by process-ks2
+      ks4: null, // Filled in by process-ks4
+      post16: null, // Filled in by process-ks4
+      district: null, // Filled in by assign-districts
+      districtMetrics: null, // Filled in by assign-districts
+    });
   }
 
   console.log(`Processed schools: ${processedSchools.length}`);
-  console.log(`Skipped (no coordinates): ${skippedNoCoords}`);
-  console.log(`Skipped (invalid coordinates): ${skippedInvalidCoords}`);
+  console.log(`  Placed by grid reference: ${processedSchools.length - placedByPostcode}`);
+  console.log(`  Placed by postcode centroid: ${placedByPostcode}`);
+  console.log(`Skipped (unplaceable): ${unplaceable.length}`);
+  console.log(`Skipped (unknown phase): ${skippedNoPhase}`);
+
+  // List schools that couldn't be placed, so they can be fixed at source
+  const reportRows = unplaceable.map(({ school, reason }) =>
+    [
+      school.URN,
+      school.EstablishmentName,
+      school.Postcode || "",
+      school.Easting || "",
+      school.Northing || "",
+      reason,
+    ]
+      .map(csvField)
+      .join(",")
+  );
+  fs.mkdirSync(path.dirname(UNPLACEABLE_REPORT_PATH), { recursive: true });
+  fs.writeFileSync(
+    UNPLACEABLE_REPORT_PATH,
+    ["URN,Name,Postcode,Easting,Northing,Reason", ...reportRows].join("\n") + "\n"
+  );
+  console.log(`Unplaceable schools written to ${UNPLACEABLE_REPORT_PATH}`);
 
   // Generate statistics
   const typeStats = new Map<string, number>();
   const phaseStats = new Map<string, number>();
   const fundingStats = new Map<string, number>();
   const admissionsStats = new Map<string, number>();
+  const genderStats = new Map<string, number>();
+  const sixthFormStats = new Map<string, number>();
+  const religiousCharacterStats = new Map<string, number>();
   const ofstedStats = new Map<string, number>();
+  let overCapacity = 0;
+  let noCapacityData = 0;
   for (const school of processedSchools) {
     typeStats.set(school.type, (typeStats.get(school.type) || 0) + 1);
     phaseStats.set(school.phase, (phaseStats.get(school.phase) || 0) + 1);
     fundingStats.set(school.funding, (fundingStats.get(school.funding) || 0) + 1);
     admissionsStats.set(school.admissions, (admissionsStats.get(school.admissions) || 0) + 1);
+    genderStats.set(school.gender, (genderStats.get(school.gender) || 0) + 1);
+    sixthFormStats.set(school.sixthForm, (sixthFormStats.get(school.sixthForm) || 0) + 1);
+    religiousCharacterStats.set(
+      school.religiousCharacter,
+      (religiousCharacterStats.get(school.religiousCharacter) || 0) + 1
+    );
     ofstedStats.set(school.ofsted, (ofstedStats.get(school.ofsted) || 0) + 1);
+    if (school.fillPercent === null) {
+      noCapacityData++;
+    } else if (school.fillPercent > 100) {
+      overCapacity++;
+    }
   }
 
   console.log("\nSchool types:");
@@ -313,22 +808,65 @@ async function processData() {
     console.log(`  ${admissions}: ${count}`);
   }
 
+  console.log("\nGender:");
+  for (const [gender, count] of genderStats.entries()) {
+    console.log(`  ${gender}: ${count}`);
+  }
+
+  console.log("\nSixth form:");
+  for (const [sixthForm, count] of sixthFormStats.entries()) {
+    console.log(`  ${sixthForm}: ${count}`);
+  }
+
+  console.log("\nReligious character:");
+  for (const [character, count] of religiousCharacterStats.entries()) {
+    console.log(`  ${character}: ${count}`);
+  }
+
   console.log("\nOfsted ratings:");
   for (const [rating, count] of ofstedStats.entries()) {
     console.log(`  ${rating}: ${count}`);
   }
 
+  console.log("\nCapacity:");
+  console.log(`  Over capacity: ${overCapacity}`);
+  console.log(`  No pupil/capacity data: ${noCapacityData}`);
+
   // Write output
   const outputPath = "src/data/schools.json";
+  const artifact: SchoolsArtifact = {
+    ...createArtifactHeader("schools.json"),
+    schools: processedSchools,
+  };
+  assertValid("schools.json", validateSchools(artifact));
   fs.mkdirSync("src/data", { recursive: true });
-  fs.writeFileSync(outputPath, JSON.stringify(processedSchools));
+
+  // Keep the schools built from the previous GIAS extract so diff-snapshots
+  // can report what changed. Only rotate when the extract itself has changed:
+  // re-running on the same extract would otherwise replace the snapshot with
+  // this one, and schools.json is rewritten in place by later steps.
+  const giasHash = createHash("sha256").update(giasData).digest("hex");
+  const builtFromHash = fs.existsSync(GIAS_HASH_PATH) ? fs.readFileSync(GIAS_HASH_PATH, "utf-8").trim() : null;
+  const extractChanged = builtFromHash ? builtFromHash !== giasHash : !fs.existsSync(PREVIOUS_SNAPSHOT_PATH);
+  if (fs.existsSync(outputPath) && extractChanged) {
+    fs.copyFileSync(outputPath, PREVIOUS_SNAPSHOT_PATH);
+    console.log(`\nPrevious snapshot kept at ${PREVIOUS_SNAPSHOT_PATH}`);
+  } else if (fs.existsSync(PREVIOUS_SNAPSHOT_PATH)) {
+    console.log(`\nGIAS extract unchanged, so ${PREVIOUS_SNAPSHOT_PATH} is left as it is`);
+  }
+  fs.writeFileSync(GIAS_HASH_PATH, `${giasHash}\n`);
+
+  fs.writeFileSync(outputPath, JSON.stringify(artifact));
   console.log(`\nOutput written to ${outputPath}`);
 
   // Also create a smaller version for development
   const samplePath = "src/data/schools-sample.json";
-  const sample = processedSchools.slice(0, 1000);
+  const sample: SchoolsArtifact = { ...artifact, schools: processedSchools.slice(0, 1000) };
   fs.writeFileSync(samplePath, JSON.stringify(sample, null, 2));
   console.log(`Sample (1000 schools) written to ${samplePath}`);
 }
 
-processData().catch(console.error);
+processData().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -1,5 +1,6 @@
 /**
- * Process HM Land Registry Price Paid Data to get median house prices by postcode district.
+ * Process HM Land Registry Price Paid Data to get median house prices by
+ * postcode district and postcode sector.
  *
  * Data source: HM Land Registry Price Paid Data
  * https://www.gov.uk/government/statistical-data-sets/price-paid-data-downloads
@@ -11,11 +12,21 @@
  *
  * Output:
  *   Updates src/data/district-metrics.json with medianPrice values
+ *   for districts and sectors
  */
 
 import * as fs from "fs";
 import * as path from "path";
 import * as readline from "readline";
+import {
+  DistrictMetricsArtifact,
+  DistrictMetricsMap,
+  createArtifactHeader,
+} from "../src/contract";
+import { validateDistrictMetrics } from "../src/schema";
+import { parseCSVLine } from "./lib/csv";
+import { extractPostcodeDistrict, extractPostcodeSector } from "./lib/postcodes";
+import { assertValid, readArtifact } from "./lib/validation";
 
 const INPUT_PATH = path.join(import.meta.dirname, "../data/price-paid-data.csv");
 const OUTPUT_PATH = path.join(
@@ -23,23 +34,9 @@ const OUTPUT_PATH = path.join(
   "../src/data/district-metrics.json"
 );
 
-interface DistrictMetrics {
-  medianPrice: number | null;
-  commuteMinutes: number | null;
-}
-
-function extractPostcodeDistrict(postcode: string): string | null {
-  // Postcode format: "SW1A 1AA" -> "SW1A" or "B1 1AA" -> "B1"
-  const trimmed = postcode.trim().toUpperCase();
-  const spaceIndex = trimmed.indexOf(" ");
-
-  if (spaceIndex === -1) {
-    // No space, might be malformed
-    return null;
-  }
-
-  return trimmed.substring(0, spaceIndex);
-}
+// Sectors see far fewer sales than districts, so a median from a handful of
+// sales says more about those houses than the area
+const MIN_SECTOR_SALES = 10;
 
 function calculateMedian(values: number[]): number {
   if (values.length === 0) return 0;
@@ -53,34 +50,6 @@ function calculateMedian(values: number[]): number {
   return sorted[mid];
 }
 
-function parseCSVLine(line: string): string[] {
-  const fields: string[] = [];
-  let current = "";
-  let inQuotes = false;
-
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-
-    if (char === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        // Escaped quote
-        current += '"';
-        i++;
-      } else {
-        inQuotes = !inQuotes;
-      }
-    } else if (char === "," && !inQuotes) {
-      fields.push(current);
-      current = "";
-    } else {
-      current += char;
-    }
-  }
-  fields.push(current);
-
-  return fields;
-}
-
 async function main() {
   // Check if input file exists
   if (!fs.existsSync(INPUT_PATH)) {
@@ -99,7 +68,11 @@ async function main() {
 
     // Create empty metrics file if it doesn't exist
     if (!fs.existsSync(OUTPUT_PATH)) {
-      const emptyMetrics: Record<string, DistrictMetrics> = {};
+      const emptyMetrics: DistrictMetricsArtifact = {
+        ...createArtifactHeader("district-metrics.json"),
+        districts: {},
+        sectors: {},
+      };
       fs.mkdirSync(path.dirname(OUTPUT_PATH), { recursive: true });
       fs.writeFileSync(OUTPUT_PATH, JSON.stringify(emptyMetrics, null, 2));
       console.log(`Created empty metrics file at ${OUTPUT_PATH}`);
@@ -109,8 +82,9 @@ async function main() {
 
   console.log("Processing price paid data (streaming)...");
 
-  // Group prices by postcode district
+  // Group prices by postcode district and sector
   const pricesByDistrict: Map<string, number[]> = new Map();
+  const pricesBySector: Map<string, number[]> = new Map();
 
   // Only consider transactions from the last 2 years for more relevant pricing
   const twoYearsAgo = new Date();
@@ -163,7 +137,8 @@ async function main() {
     }
 
     const district = extractPostcodeDistrict(postcode);
-    if (!district) {
+    const sector = extractPostcodeSector(postcode);
+    if (!district || !sector) {
       skipped++;
       continue;
     }
@@ -172,6 +147,10 @@ async function main() {
       pricesByDistrict.set(district, []);
     }
     pricesByDistrict.get(district)!.push(price);
+    if (!pricesBySector.has(sector)) {
+      pricesBySector.set(sector, []);
+    }
+    pricesBySector.get(sector)!.push(price);
     processed++;
   }
 
@@ -179,12 +158,12 @@ async function main() {
     `Processed ${processed.toLocaleString()} transactions (skipped ${skipped.toLocaleString()})`
   );
   console.log(`Found ${pricesByDistrict.size} postcode districts`);
+  console.log(`Found ${pricesBySector.size} postcode sectors`);
 
   // Load existing metrics or create new
-  let metrics: Record<string, DistrictMetrics> = {};
-  if (fs.existsSync(OUTPUT_PATH)) {
-    metrics = JSON.parse(fs.readFileSync(OUTPUT_PATH, "utf-8"));
-  }
+  const existing = readArtifact<DistrictMetricsArtifact>("district-metrics.json", OUTPUT_PATH);
+  const metrics: DistrictMetricsMap = existing?.districts ?? {};
+  const sectorMetrics: DistrictMetricsMap = existing?.sectors ?? {};
 
   // Calculate median prices
   for (const [district, prices] of pricesByDistrict) {
@@ -194,9 +173,29 @@ async function main() {
     metrics[district].medianPrice = calculateMedian(prices);
   }
 
+  let thinSectors = 0;
+  for (const [sector, prices] of pricesBySector) {
+    if (!sectorMetrics[sector]) {
+      sectorMetrics[sector] = { medianPrice: null, commuteMinutes: null };
+    }
+    if (prices.length < MIN_SECTOR_SALES) {
+      sectorMetrics[sector].medianPrice = null;
+      thinSectors++;
+      continue;
+    }
+    sectorMetrics[sector].medianPrice = calculateMedian(prices);
+  }
+  console.log(`Sectors with fewer than ${MIN_SECTOR_SALES} sales (no median): ${thinSectors}`);
+
   // Write output
+  const output: DistrictMetricsArtifact = {
+    ...createArtifactHeader("district-metrics.json"),
+    districts: metrics,
+    sectors: sectorMetrics,
+  };
+  assertValid("district-metrics.json", validateDistrictMetrics(output));
   fs.mkdirSync(path.dirname(OUTPUT_PATH), { recursive: true });
-  fs.writeFileSync(OUTPUT_PATH, JSON.stringify(metrics, null, 2));
+  fs.writeFileSync(OUTPUT_PATH, JSON.stringify(output, null, 2));
   console.log(`Written to ${OUTPUT_PATH}`);
 
   // Print some statistics
@@ -215,4 +214,7 @@ async function main() {
   }
 }
 
-main().catch(console.error);
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,125 @@
+/**
+ * Join Key Stage 2 attainment from the DfE performance tables onto primary schools.
+ *
+ * Data source: DfE Find and compare school performance
+ * https://www.compare-school-performance.service.gov.uk/download-data
+ *
+ * Download the "Key stage 2" final results for England (england_ks2final.csv)
+ * and place it in data/ks2_performance.csv
+ *
+ * Usage:
+ *   npm run process-ks2
+ *
+ * Output:
+ *   Updates src/data/schools.json with ks2 values
+ */
+
+import { parse } from "csv-parse/sync";
+import * as fs from "fs";
+import * as path from "path";
+import { Ks2Results, SchoolsArtifact } from "../src/contract";
+import { validateSchools } from "../src/schema";
+import { PhaseOfEducation } from "../src/types";
+import { parsePerformanceValue } from "./lib/performance";
+import { assertValid, readArtifact } from "./lib/validation";
+
+const INPUT_PATH = path.join(import.meta.dirname, "../data/ks2_performance.csv");
+const SCHOOLS_PATH = path.join(import.meta.dirname, "../src/data/schools.json");
+
+// Phases that teach Key Stage 2
+const KS2_PHASES: PhaseOfEducation[] = [
+  "Primary",
+  "Middle deemed primary",
+  "Middle deemed secondary",
+  "All-through",
+];
+
+interface Ks2Record {
+  URN: string;
+  PTRWM_EXP: string;
+  PTRWM_HIGH: string;
+  READPROG: string;
+  WRITPROG: string;
+  MATPROG: string;
+}
+
+async function main() {
+  if (!fs.existsSync(INPUT_PATH)) {
+    console.log(`Input file not found: ${INPUT_PATH}`);
+    console.log("");
+    console.log("To download the KS2 performance data:");
+    console.log(
+      "1. Visit: https://www.compare-school-performance.service.gov.uk/download-data"
+    );
+    console.log('2. Download the "Key stage 2" final results for all of England');
+    console.log("3. Save england_ks2final.csv as data/ks2_performance.csv");
+    return;
+  }
+
+  const artifact = readArtifact<SchoolsArtifact>("schools.json", SCHOOLS_PATH);
+  if (!artifact) {
+    console.log(`Schools file missing or out of date: ${SCHOOLS_PATH}`);
+    console.log("Please run: npm run process-data");
+    return;
+  }
+
+  console.log("Reading KS2 performance data...");
+  const records: Ks2Record[] = parse(fs.readFileSync(INPUT_PATH, "utf-8"), {
+    columns: true,
+    skip_empty_lines: true,
+    relax_column_count: true,
+    bom: true,
+  });
+
+  const resultsByUrn = new Map<string, Ks2Results>();
+  for (const record of records) {
+    // The file also has national and LA summary rows without a URN
+    if (!record.URN) continue;
+
+    resultsByUrn.set(record.URN, {
+      expectedRwm: parsePerformanceValue(record.PTRWM_EXP),
+      higherRwm: parsePerformanceValue(record.PTRWM_HIGH),
+      readingProgress: parsePerformanceValue(record.READPROG),
+      writingProgress: parsePerformanceValue(record.WRITPROG),
+      mathsProgress: parsePerformanceValue(record.MATPROG),
+    });
+  }
+  console.log(`KS2 records loaded: ${resultsByUrn.size}`);
+
+  const schools = artifact.schools;
+
+  let matched = 0;
+  for (const school of schools) {
+    const results = KS2_PHASES.includes(school.phase)
+      ? resultsByUrn.get(school.urn)
+      : undefined;
+    school.ks2 = results ?? null;
+    if (results) matched++;
+  }
+
+  console.log(`Matched KS2 results for ${matched} schools`);
+
+  assertValid("schools.json", validateSchools(artifact));
+  fs.writeFileSync(SCHOOLS_PATH, JSON.stringify(artifact));
+  console.log(`Written to ${SCHOOLS_PATH}`);
+
+  // Print some statistics
+  const expected = schools
+    .map((s) => s.ks2?.expectedRwm)
+    .filter((v): v is number => v !== null && v !== undefined);
+
+  if (expected.length > 0) {
+    console.log("");
+    console.log("Statistics:");
+    console.log(
+      `  Average % meeting expected standard (RWM): ${Math.round(
+        expected.reduce((a, b) => a + b, 0) / expected.length
+      )}%`
+    );
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
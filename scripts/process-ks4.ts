@@ -0,0 +1,164 @@
+/**
+ * Join Key Stage 4 and 16-18 results from the DfE performance tables onto secondary schools.
+ *
+ * Data source: DfE Find and compare school performance
+ * https://www.compare-school-performance.service.gov.uk/download-data
+ *
+ * Download the "Key stage 4" final results for England (england_ks4final.csv)
+ * and place it in data/ks4_performance.csv. Optionally download the "16 to 18"
+ * results (england_ks5final.csv) and place it in data/ks5_performance.csv
+ *
+ * Usage:
+ *   npm run process-ks4
+ *
+ * Output:
+ *   Updates src/data/schools.json with ks4 and post16 values
+ */
+
+import { parse } from "csv-parse/sync";
+import * as fs from "fs";
+import * as path from "path";
+import { Ks4Results, Post16Results, SchoolsArtifact } from "../src/contract";
+import { validateSchools } from "../src/schema";
+import { PhaseOfEducation } from "../src/types";
+import { parsePerformanceValue } from "./lib/performance";
+import { assertValid, readArtifact } from "./lib/validation";
+
+const KS4_INPUT_PATH = path.join(import.meta.dirname, "../data/ks4_performance.csv");
+const KS5_INPUT_PATH = path.join(import.meta.dirname, "../data/ks5_performance.csv");
+const SCHOOLS_PATH = path.join(import.meta.dirname, "../src/data/schools.json");
+
+// Phases that teach Key Stage 4 and 16-18 respectively
+const KS4_PHASES: PhaseOfEducation[] = ["Secondary", "All-through"];
+const POST16_PHASES: PhaseOfEducation[] = ["Secondary", "All-through", "16 plus"];
+
+interface Ks4Record {
+  URN: string;
+  P8MEA: string;
+  ATT8SCR: string;
+  PTEBACC_E_PTQ_EE: string;
+  PTL2BASICS_95: string;
+}
+
+interface Ks5Record {
+  URN: string;
+  TALLPPE_ALEV_1618: string;
+  TALLPPEGRD_ALEV_1618: string;
+}
+
+function readCsv<T>(filePath: string): T[] {
+  return parse(fs.readFileSync(filePath, "utf-8"), {
+    columns: true,
+    skip_empty_lines: true,
+    relax_column_count: true,
+    bom: true,
+  });
+}
+
+function loadKs4Results(): Map<string, Ks4Results> {
+  const results = new Map<string, Ks4Results>();
+  for (const record of readCsv<Ks4Record>(KS4_INPUT_PATH)) {
+    // The file also has national and LA summary rows without a URN
+    if (!record.URN) continue;
+
+    results.set(record.URN, {
+      progress8: parsePerformanceValue(record.P8MEA),
+      attainment8: parsePerformanceValue(record.ATT8SCR),
+      ebaccEntry: parsePerformanceValue(record.PTEBACC_E_PTQ_EE),
+      grade5EnglishMaths: parsePerformanceValue(record.PTL2BASICS_95),
+    });
+  }
+  return results;
+}
+
+function loadPost16Results(): Map<string, Post16Results> {
+  const results = new Map<string, Post16Results>();
+  if (!fs.existsSync(KS5_INPUT_PATH)) {
+    console.log(`16-18 file not found, skipping: ${KS5_INPUT_PATH}`);
+    return results;
+  }
+
+  for (const record of readCsv<Ks5Record>(KS5_INPUT_PATH)) {
+    if (!record.URN) continue;
+
+    const grade = record.TALLPPEGRD_ALEV_1618?.trim();
+    results.set(record.URN, {
+      aLevelPointScore: parsePerformanceValue(record.TALLPPE_ALEV_1618),
+      // Grades look like "B-" or "C+"; anything else is a suppression code
+      aLevelGrade: grade && /^[A-E][+-]?$|^A\*$/.test(grade) ? grade : null,
+    });
+  }
+  return results;
+}
+
+async function main() {
+  if (!fs.existsSync(KS4_INPUT_PATH)) {
+    console.log(`Input file not found: ${KS4_INPUT_PATH}`);
+    console.log("");
+    console.log("To download the KS4 performance data:");
+    console.log(
+      "1. Visit: https://www.compare-school-performance.service.gov.uk/download-data"
+    );
+    console.log('2. Download the "Key stage 4" final results for all of England');
+    console.log("3. Save england_ks4final.csv as data/ks4_performance.csv");
+    console.log(
+      "4. Optionally save england_ks5final.csv (16 to 18) as data/ks5_performance.csv"
+    );
+    return;
+  }
+
+  const artifact = readArtifact<SchoolsArtifact>("schools.json", SCHOOLS_PATH);
+  if (!artifact) {
+    console.log(`Schools file missing or out of date: ${SCHOOLS_PATH}`);
+    console.log("Please run: npm run process-data");
+    return;
+  }
+
+  console.log("Reading KS4 performance data...");
+  const ks4ByUrn = loadKs4Results();
+  console.log(`KS4 records loaded: ${ks4ByUrn.size}`);
+
+  console.log("Reading 16-18 performance data...");
+  const post16ByUrn = loadPost16Results();
+  console.log(`16-18 records loaded: ${post16ByUrn.size}`);
+
+  const schools = artifact.schools;
+
+  let matchedKs4 = 0;
+  let matchedPost16 = 0;
+  for (const school of schools) {
+    const ks4 = KS4_PHASES.includes(school.phase) ? ks4ByUrn.get(school.urn) : undefined;
+    const post16 = POST16_PHASES.includes(school.phase)
+      ? post16ByUrn.get(school.urn)
+      : undefined;
+
+    school.ks4 = ks4 ?? null;
+    school.post16 = post16 ?? null;
+    if (ks4) matchedKs4++;
+    if (post16) matchedPost16++;
+  }
+
+  console.log(`Matched KS4 results for ${matchedKs4} schools`);
+  console.log(`Matched 16-18 results for ${matchedPost16} schools`);
+
+  assertValid("schools.json", validateSchools(artifact));
+  fs.writeFileSync(SCHOOLS_PATH, JSON.stringify(artifact));
+  console.log(`Written to ${SCHOOLS_PATH}`);
+
+  // Print some statistics
+  const progress8 = schools
+    .map((s) => s.ks4?.progress8)
+    .filter((v): v is number => v !== null && v !== undefined);
+
+  if (progress8.length > 0) {
+    console.log("");
+    console.log("Statistics:");
+    console.log(`  Min Progress 8: ${Math.min(...progress8).toFixed(2)}`);
+    console.log(`  Max Progress 8: ${Math.max(...progress8).toFixed(2)}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,124 @@
+/**
+ * Simplify local authority boundaries for the LA picker outline.
+ *
+ * Data source: ONS Open Geography Portal, "Counties and Unitary Authorities"
+ * boundaries (generalised, BGC), downloaded as GeoJSON in WGS84.
+ * https://geoportal.statistics.gov.uk/
+ * License: Open Government Licence v3.0
+ *
+ * Download the GeoJSON file and place it in data/la-boundaries.geojson
+ *
+ * Usage:
+ *   npm run process-la-boundaries
+ *
+ * Output:
+ *   src/data/la-boundaries.json
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+  BoundaryFeature,
+  LocalAuthorityBoundariesArtifact,
+  LocalAuthorityProperties,
+  createArtifactHeader,
+} from "../src/contract";
+import {
+  GeoJSONCollection,
+  simplifyFeature,
+  roundCoordinates,
+} from "./lib/simplify";
+
+const INPUT_PATH = path.join(import.meta.dirname, "../data/la-boundaries.geojson");
+const OUTPUT_PATH = path.join(
+  import.meta.dirname,
+  "../src/data/la-boundaries.json"
+);
+
+function findProperty(
+  properties: Record<string, unknown>,
+  suffix: "NM" | "CD"
+): string | null {
+  // ONS property names carry the boundary year, e.g. CTYUA24NM or LAD23CD
+  const key = Object.keys(properties).find((k) =>
+    new RegExp(`^[A-Z]+\\d{2}${suffix}$`).test(k)
+  );
+  return key ? String(properties[key]) : null;
+}
+
+async function main() {
+  if (!fs.existsSync(INPUT_PATH)) {
+    console.log(`Input file not found: ${INPUT_PATH}`);
+    console.log("");
+    console.log("To download the local authority boundaries:");
+    console.log("1. Visit: https://geoportal.statistics.gov.uk/");
+    console.log(
+      '2. Search for "Counties and Unitary Authorities" (generalised, BGC)'
+    );
+    console.log("3. Download as GeoJSON and save as data/la-boundaries.geojson");
+
+    // Create empty boundaries file so the app still builds without outlines
+    if (!fs.existsSync(OUTPUT_PATH)) {
+      const empty: LocalAuthorityBoundariesArtifact = {
+        type: "FeatureCollection",
+        ...createArtifactHeader("la-boundaries.json"),
+        features: [],
+      };
+      fs.mkdirSync(path.dirname(OUTPUT_PATH), { recursive: true });
+      fs.writeFileSync(OUTPUT_PATH, JSON.stringify(empty));
+      console.log(`Created empty boundaries file at ${OUTPUT_PATH}`);
+    }
+    return;
+  }
+
+  console.log("Reading local authority boundaries...");
+  const source: GeoJSONCollection = JSON.parse(
+    fs.readFileSync(INPUT_PATH, "utf-8")
+  );
+
+  const features: BoundaryFeature<LocalAuthorityProperties>[] = [];
+  let skipped = 0;
+
+  for (const feature of source.features) {
+    const name = findProperty(feature.properties, "NM");
+    const code = findProperty(feature.properties, "CD");
+
+    // Admissions in GIAS only cover England (E-prefixed ONS codes)
+    if (!name || !code || !code.startsWith("E")) {
+      skipped++;
+      continue;
+    }
+
+    features.push({
+      ...feature,
+      properties: { name, code },
+    });
+  }
+
+  console.log(`Local authorities: ${features.length} (skipped ${skipped})`);
+
+  // Outlines only need to be recognisable, so simplify harder than districts
+  // (tolerance in degrees, ~0.001 = ~100m)
+  console.log("Simplifying geometry...");
+  const simplified = features
+    .map((f) => simplifyFeature(f, 0.001))
+    .map((f) => roundCoordinates(f, 4));
+
+  const geojson: LocalAuthorityBoundariesArtifact = {
+    type: "FeatureCollection",
+    ...createArtifactHeader("la-boundaries.json"),
+    features: simplified,
+  };
+
+  const size = JSON.stringify(geojson).length;
+  console.log(`Output size: ${(size / 1024 / 1024).toFixed(2)} MB`);
+
+  fs.mkdirSync(path.dirname(OUTPUT_PATH), { recursive: true });
+  fs.writeFileSync(OUTPUT_PATH, JSON.stringify(geojson));
+  console.log(`Written to ${OUTPUT_PATH}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
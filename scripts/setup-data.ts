@@ -0,0 +1,519 @@
+/**
+ * Download and process all data for the school finder app.
+ *
+ * Each processing step declares the files it reads and writes. A step only
+ * runs when the content of its inputs, its script, or a step it depends on
+ * has changed since its last successful run, so re-running setup after a
+ * failure picks up where it stopped. Large downloads resume from where they
+ * were interrupted.
+ *
+ * Usage:
+ *   npm run setup                          # Download and process everything
+ *   npm run setup -- --skip-house-prices   # Skip the 4.5GB house price file
+ *   npm run setup -- --offline             # Only use files already in data/
+ *   npm run setup -- --force               # Re-run every step
+ *   npm run setup -- --topojson            # Write boundaries as TopoJSON
+ *
+ * Postcode district boundaries are downloaded unless a local copy (GeoJSON
+ * or shapefiles) has been saved in data/postcode-districts/.
+ *
+ * Output:
+ *   src/data/*.json
+ *   public/tiles/ (map tiles cut from the schools and district boundaries)
+ *   data/.pipeline-cache.json (hashes and download validators from the last run)
+ */
+
+import { spawn } from "child_process";
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { DownloadState, downloadFile } from "./lib/download";
+
+const ROOT = path.join(import.meta.dirname, "..");
+const CACHE_PATH = "data/.pipeline-cache.json";
+
+// GIAS only publishes the latest extract, named by date, so look back a week
+const GIAS_LOOKBACK_DAYS = 7;
+// Anything smaller than this is an error page rather than the real extract
+const GIAS_MIN_BYTES = 1_000_000;
+
+// Local district boundaries, read instead of downloading them when present
+const LOCAL_BOUNDARIES = "data/postcode-districts";
+
+// Changes to shared code can change any step's output
+const SHARED_SOURCES = ["src/contract.ts", "src/types.ts", "src/schema.ts", "scripts/lib"];
+
+interface Options {
+  offline: boolean;
+  force: boolean;
+  skipHousePrices: boolean;
+  topojson: boolean;
+}
+
+interface Download {
+  name: string;
+  output: string;
+  // Candidate URLs, tried in order until one succeeds
+  urls: () => string[];
+  minBytes?: number;
+  // Each URL always serves the same file, so a copy from the same URL is current
+  immutable?: boolean;
+  skip?: (options: Options) => boolean;
+}
+
+interface Step {
+  // npm script name; the script lives at scripts/<name>.ts
+  name: string;
+  inputs: string[];
+  optionalInputs?: string[];
+  dependsOn?: string[];
+  outputs: string[];
+  // Optional steps are skipped, rather than failing, when an input is missing
+  optional?: boolean;
+  // The step downloads its own input, so can't run with --offline
+  network?: boolean;
+  // Extra arguments for the script
+  args?: (options: Options) => string[];
+  skip?: (options: Options) => boolean;
+}
+
+type StepStatus = "ran" | "cached" | "skipped" | "failed";
+
+interface StepResult {
+  status: StepStatus;
+  note?: string;
+}
+
+interface PipelineCache {
+  files: Record<string, { size: number; mtimeMs: number; hash: string }>;
+  downloads: Record<string, DownloadState>;
+  steps: Record<string, { fingerprint: string; completedAt: string }>;
+}
+
+const DOWNLOADS: Download[] = [
+  {
+    name: "GIAS school data",
+    output: "data/edubase_raw.csv",
+    urls: () => {
+      const urls: string[] = [];
+      for (let daysAgo = 0; daysAgo <= GIAS_LOOKBACK_DAYS; daysAgo++) {
+        const date = new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000);
+        const stamp = date.toISOString().slice(0, 10).replace(/-/g, "");
+        urls.push(`https://ea-edubase-api-prod.azurewebsites.net/edubase/edubasealldata${stamp}.csv`);
+      }
+      return urls;
+    },
+    minBytes: GIAS_MIN_BYTES,
+    immutable: true,
+  },
+  {
+    name: "Ofsted ratings",
+    output: "data/ofsted_school_level.csv",
+    urls: () => [
+      "https://explore-education-statistics.service.gov.uk/data-catalogue/data-set/c0c08e6d-c3ef-4408-8193-dcc493b7fa59/csv",
+    ],
+  },
+  {
+    name: "House price data",
+    output: "data/price-paid-data.csv",
+    urls: () => [
+      "http://prod.publicdata.landregistry.gov.uk.s3-website-eu-west-1.amazonaws.com/pp-complete.csv",
+    ],
+    skip: (options) => options.skipHousePrices,
+  },
+];
+
+// School census (EAL/SEN), KS2, KS4 and 16-18 figures come from the DfE
+// performance tables download service, which has no direct links. Save them
+// into data/ by hand and the matching steps pick them up.
+const STEPS: Step[] = [
+  {
+    name: "process-data",
+    inputs: ["data/edubase_utf8.csv", "data/ofsted_school_level.csv"],
+    // Postcode centroids for schools without a usable grid reference
+    optionalInputs: ["data/census_school_level.csv", "data/onspd.csv", "data/codepoint-open"],
+    outputs: [
+      "src/data/schools.json",
+      "src/data/schools-sample.json",
+      "data/reports/unplaceable-schools.csv",
+    ],
+  },
+  {
+    name: "diff-snapshots",
+    inputs: [],
+    dependsOn: ["process-data"],
+    outputs: ["src/data/changes.json"],
+  },
+  {
+    name: "process-ks2",
+    inputs: ["data/ks2_performance.csv"],
+    dependsOn: ["process-data"],
+    outputs: ["src/data/schools.json"],
+    optional: true,
+  },
+  {
+    name: "process-ks4",
+    inputs: ["data/ks4_performance.csv"],
+    optionalInputs: ["data/ks5_performance.csv"],
+    dependsOn: ["process-data"],
+    outputs: ["src/data/schools.json"],
+    optional: true,
+  },
+  {
+    name: "process-boundaries",
+    inputs: [],
+    optionalInputs: ["data/postcode-sectors.geojson", LOCAL_BOUNDARIES, "data/onspd.csv"],
+    // The missing districts report checks the schools' postcodes
+    dependsOn: ["process-data"],
+    outputs: [
+      "src/data/postcode-districts.json",
+      "src/data/postcode-districts-low.json",
+      "src/data/postcode-districts-high.json",
+      "src/data/postcode-sectors.json",
+      "data/reports/missing-districts.csv",
+    ],
+    network: !fs.existsSync(path.join(ROOT, LOCAL_BOUNDARIES)),
+    args: (options) => [
+      ...(options.topojson ? ["--topojson"] : []),
+      ...(fs.existsSync(path.join(ROOT, LOCAL_BOUNDARIES)) ? ["--source", LOCAL_BOUNDARIES] : []),
+    ],
+  },
+  {
+    name: "process-la-boundaries",
+    inputs: [],
+    optionalInputs: ["data/la-boundaries.geojson"],
+    outputs: ["src/data/la-boundaries.json"],
+  },
+  {
+    name: "process-commute-times",
+    inputs: [],
+    dependsOn: ["process-boundaries"],
+    outputs: ["src/data/district-metrics.json"],
+  },
+  {
+    name: "process-house-prices",
+    inputs: ["data/price-paid-data.csv"],
+    outputs: ["src/data/district-metrics.json"],
+    optional: true,
+    skip: (options) => options.skipHousePrices,
+  },
+  {
+    name: "assign-districts",
+    inputs: [],
+    dependsOn: ["process-data", "process-boundaries", "process-commute-times", "process-house-prices"],
+    outputs: ["src/data/schools.json"],
+  },
+  {
+    name: "build-tiles",
+    inputs: [],
+    dependsOn: [
+      "process-data",
+      "process-ks2",
+      "process-ks4",
+      "process-boundaries",
+      "assign-districts",
+    ],
+    outputs: ["public/tiles/tiles.json"],
+  },
+];
+
+function parseOptions(args: string[]): Options {
+  return {
+    offline: args.includes("--offline"),
+    force: args.includes("--force"),
+    skipHousePrices: args.includes("--skip-house-prices"),
+    topojson: args.includes("--topojson"),
+  };
+}
+
+function loadCache(): PipelineCache {
+  const cachePath = path.join(ROOT, CACHE_PATH);
+  if (fs.existsSync(cachePath)) {
+    try {
+      return JSON.parse(fs.readFileSync(cachePath, "utf-8"));
+    } catch {
+      console.log("Pipeline cache is unreadable, starting fresh");
+    }
+  }
+  return { files: {}, downloads: {}, steps: {} };
+}
+
+function saveCache(cache: PipelineCache): void {
+  const cachePath = path.join(ROOT, CACHE_PATH);
+  fs.mkdirSync(path.dirname(cachePath), { recursive: true });
+  fs.writeFileSync(cachePath, JSON.stringify(cache, null, 2));
+}
+
+/**
+ * SHA-256 of a file's contents, or null if it doesn't exist. Hashes are
+ * reused while the file's size and modification time are unchanged, so the
+ * 4.5GB house price file is only read once.
+ */
+async function hashFile(file: string, cache: PipelineCache): Promise<string | null> {
+  const fullPath = path.join(ROOT, file);
+  if (!fs.existsSync(fullPath)) {
+    return null;
+  }
+
+  const { size, mtimeMs } = fs.statSync(fullPath);
+  const cached = cache.files[file];
+  if (cached && cached.size === size && cached.mtimeMs === mtimeMs) {
+    return cached.hash;
+  }
+
+  const hash = createHash("sha256");
+  for await (const chunk of fs.createReadStream(fullPath)) {
+    hash.update(chunk);
+  }
+  const digest = hash.digest("hex");
+  cache.files[file] = { size, mtimeMs, hash: digest };
+  return digest;
+}
+
+function listSourceFiles(entry: string): string[] {
+  const fullPath = path.join(ROOT, entry);
+  if (!fs.existsSync(fullPath)) {
+    return [];
+  }
+  if (!fs.statSync(fullPath).isDirectory()) {
+    return [entry];
+  }
+  return fs
+    .readdirSync(fullPath)
+    .sort()
+    .flatMap((name) => listSourceFiles(path.join(entry, name)));
+}
+
+/**
+ * Combine everything that determines a step's output into one hash: its
+ * script and arguments, the shared code, its input files and the fingerprints
+ * of the steps it depends on.
+ */
+async function fingerprintStep(
+  step: Step,
+  args: string[],
+  cache: PipelineCache,
+  fingerprints: Map<string, string>
+): Promise<string> {
+  const hash = createHash("sha256");
+  hash.update(`args:${args.join(" ")}\n`);
+  const sources = [`scripts/${step.name}.ts`, ...SHARED_SOURCES.flatMap(listSourceFiles)];
+  // Optional inputs may be directories of files, such as Code-Point Open
+  const optionalInputs = (step.optionalInputs ?? []).flatMap(listSourceFiles);
+  for (const file of [...sources, ...step.inputs, ...optionalInputs]) {
+    hash.update(`${file}:${(await hashFile(file, cache)) ?? "missing"}\n`);
+  }
+  for (const dependency of step.dependsOn ?? []) {
+    hash.update(`${dependency}:${fingerprints.get(dependency) ?? "not run"}\n`);
+  }
+  return hash.digest("hex");
+}
+
+function runScript(name: string, args: string[] = []): Promise<boolean> {
+  return new Promise((resolve) => {
+    const npmArgs = ["run", "--silent", name, ...(args.length > 0 ? ["--", ...args] : [])];
+    const child = spawn("npm", npmArgs, {
+      cwd: ROOT,
+      stdio: "inherit",
+      shell: process.platform === "win32",
+    });
+    child.on("error", () => resolve(false));
+    child.on("close", (code) => resolve(code === 0));
+  });
+}
+
+async function runDownload(
+  download: Download,
+  options: Options,
+  cache: PipelineCache
+): Promise<string> {
+  const outputPath = path.join(ROOT, download.output);
+  const hasCopy = fs.existsSync(outputPath);
+
+  if (download.skip?.(options)) {
+    return "skipped";
+  }
+  if (options.offline) {
+    return hasCopy ? "using existing copy (offline)" : "missing (offline)";
+  }
+
+  const previous = cache.downloads[download.name] ?? null;
+  for (const url of download.urls()) {
+    if (download.immutable && hasCopy && previous?.url === url) {
+      return "up to date";
+    }
+
+    console.log(`  Fetching ${url}`);
+    // Pass the state even for another URL, so its partial download survives a miss here
+    const result = await downloadFile(url, outputPath, previous, download.minBytes);
+
+    if (result.status === "not-modified") {
+      return "up to date";
+    }
+    if (result.status === "failed") {
+      if (result.state) {
+        cache.downloads[download.name] = result.state;
+        saveCache(cache);
+      }
+      console.log(`  Failed: ${result.error}`);
+      continue;
+    }
+
+    cache.downloads[download.name] = result.state;
+    saveCache(cache);
+    return `downloaded ${(result.bytes / 1024 / 1024).toFixed(1)}MB`;
+  }
+
+  return hasCopy ? "download failed, using existing copy" : "download failed";
+}
+
+/**
+ * GIAS is published as ISO-8859-1; the processing scripts expect UTF-8.
+ */
+function convertGias(): void {
+  const rawPath = path.join(ROOT, "data/edubase_raw.csv");
+  const utf8Path = path.join(ROOT, "data/edubase_utf8.csv");
+  if (!fs.existsSync(rawPath)) {
+    return;
+  }
+  if (fs.existsSync(utf8Path) && fs.statSync(utf8Path).mtimeMs >= fs.statSync(rawPath).mtimeMs) {
+    return;
+  }
+
+  console.log("  Converting GIAS encoding...");
+  fs.writeFileSync(utf8Path, fs.readFileSync(rawPath).toString("latin1"), "utf-8");
+}
+
+async function runStep(
+  step: Step,
+  options: Options,
+  cache: PipelineCache,
+  fingerprints: Map<string, string>
+): Promise<StepResult> {
+  if (step.skip?.(options)) {
+    return { status: "skipped", note: "disabled by option" };
+  }
+
+  const missing = step.inputs.filter((input) => !fs.existsSync(path.join(ROOT, input)));
+  if (missing.length > 0) {
+    return {
+      status: step.optional ? "skipped" : "failed",
+      note: `missing ${missing.join(", ")}`,
+    };
+  }
+
+  const args = step.args?.(options) ?? [];
+  const fingerprint = await fingerprintStep(step, args, cache, fingerprints);
+  fingerprints.set(step.name, fingerprint);
+
+  const outputsExist = step.outputs.every((output) => fs.existsSync(path.join(ROOT, output)));
+  if (!options.force && outputsExist && cache.steps[step.name]?.fingerprint === fingerprint) {
+    return { status: "cached", note: "inputs unchanged" };
+  }
+
+  if (step.network && options.offline) {
+    return outputsExist
+      ? { status: "cached", note: "needs network, kept existing output" }
+      : { status: "failed", note: "needs network" };
+  }
+
+  console.log(`\n> ${step.name}`);
+  const succeeded = await runScript(step.name, args);
+  const missingOutputs = step.outputs.filter((output) => !fs.existsSync(path.join(ROOT, output)));
+  if (!succeeded || missingOutputs.length > 0) {
+    delete cache.steps[step.name];
+    saveCache(cache);
+    return {
+      status: "failed",
+      note: succeeded ? `did not write ${missingOutputs.join(", ")}` : "script exited with an error",
+    };
+  }
+
+  cache.steps[step.name] = { fingerprint, completedAt: new Date().toISOString() };
+  saveCache(cache);
+  return { status: "ran" };
+}
+
+function formatSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+  return `${(bytes / 1024).toFixed(1)}KB`;
+}
+
+async function printManifest(cache: PipelineCache): Promise<void> {
+  console.log("\n=== Manifest ===");
+
+  const outputs = Array.from(new Set(STEPS.flatMap((step) => step.outputs)));
+  for (const output of outputs) {
+    const hash = await hashFile(output, cache);
+    if (!hash) {
+      console.log(`  ${output.padEnd(36)} missing`);
+      continue;
+    }
+    const { size } = fs.statSync(path.join(ROOT, output));
+    console.log(`  ${output.padEnd(36)} ${formatSize(size).padStart(9)}  ${hash.slice(0, 12)}`);
+  }
+  saveCache(cache);
+}
+
+async function main() {
+  const options = parseOptions(process.argv.slice(2));
+  const cache = loadCache();
+
+  console.log("=== School Finder UK - Data Setup ===");
+  if (options.offline) {
+    console.log("Offline mode: using only files already in data/");
+  }
+
+  fs.mkdirSync(path.join(ROOT, "data"), { recursive: true });
+
+  console.log("\n=== Downloads ===");
+  for (const download of DOWNLOADS) {
+    console.log(`${download.name}:`);
+    console.log(`  ${await runDownload(download, options, cache)}`);
+  }
+  convertGias();
+
+  console.log("\n=== Processing ===");
+  const fingerprints = new Map<string, string>();
+  const results = new Map<string, StepResult>();
+  for (const step of STEPS) {
+    // Keep going with independent steps, but don't build on a failed one
+    const failedDependency = (step.dependsOn ?? []).find(
+      (dependency) => results.get(dependency)?.status === "failed"
+    );
+    const result: StepResult = failedDependency
+      ? { status: "failed", note: `${failedDependency} failed` }
+      : await runStep(step, options, cache, fingerprints);
+    results.set(step.name, result);
+  }
+
+  console.log("\n=== Steps ===");
+  for (const [name, result] of results) {
+    console.log(`  ${name.padEnd(24)} ${result.status}${result.note ? ` (${result.note})` : ""}`);
+  }
+
+  const failed = Array.from(results.values()).some((result) => result.status === "failed");
+  if (!failed) {
+    console.log("\n> validate-data");
+    if (!(await runScript("validate-data"))) {
+      console.log("Generated data failed validation");
+      process.exitCode = 1;
+    }
+  } else {
+    process.exitCode = 1;
+  }
+
+  await printManifest(cache);
+
+  if (process.exitCode) {
+    console.log("\nSetup did not complete. Fix the problem above and re-run; finished steps are skipped.");
+    return;
+  }
+  console.log("\n=== Setup complete ===");
+  console.log("\nRun 'npm run dev' to start the development server.");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,288 @@
+/**
+ * Check the generated data files and print a data-quality report.
+ *
+ * Runs the same schema checks the pipeline scripts apply before writing,
+ * plus checks that span records or files: duplicate URNs, schools outside
+ * England, schools not assigned a postcode district, districts or sectors
+ * that have a boundary but no metrics (or the reverse), and detail levels of
+ * the district boundaries that don't match.
+ *
+ * Usage:
+ *   npm run validate-data
+ *
+ * Exits with status 1 if any schema errors, duplicate URNs or out-of-bounds
+ * schools are found. Unassigned schools and district and sector mismatches
+ * are reported as warnings.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+  DISTRICT_BOUNDARY_FILES,
+  DistrictMetricsArtifact,
+  PostcodeDistrictsArtifact,
+  PostcodeSectorsArtifact,
+  School,
+  SchoolsArtifact,
+} from "../src/contract";
+import {
+  ENGLAND_BOUNDING_BOX,
+  ValidationIssue,
+  formatIssues,
+  isEnglishGssCode,
+  validateBoundaries,
+  validateDistrictMetrics,
+  validateSchools,
+  validateSectorBoundaries,
+} from "../src/schema";
+import { boundaryFeatures } from "../src/utils/topojson";
+
+const DATA_DIR = path.join(import.meta.dirname, "../src/data");
+const SCHOOLS_PATH = path.join(DATA_DIR, "schools.json");
+const BOUNDARIES_PATH = path.join(DATA_DIR, "postcode-districts.json");
+const SECTORS_PATH = path.join(DATA_DIR, "postcode-sectors.json");
+const METRICS_PATH = path.join(DATA_DIR, "district-metrics.json");
+
+function readJson(filePath: string): unknown {
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+  return JSON.parse(fs.readFileSync(filePath, "utf-8"));
+}
+
+function findDuplicateUrns(schools: School[]): ValidationIssue[] {
+  const seen = new Map<string, number>();
+  for (const school of schools) {
+    seen.set(school.urn, (seen.get(school.urn) || 0) + 1);
+  }
+  return Array.from(seen.entries())
+    .filter(([, count]) => count > 1)
+    .map(([urn, count]) => ({ path: `schools[${urn}]`, message: `URN appears ${count} times` }));
+}
+
+function findOutOfBounds(schools: School[]): ValidationIssue[] {
+  return schools
+    .filter(
+      (school) =>
+        school.lat < ENGLAND_BOUNDING_BOX.minLat ||
+        school.lat > ENGLAND_BOUNDING_BOX.maxLat ||
+        school.lng < ENGLAND_BOUNDING_BOX.minLng ||
+        school.lng > ENGLAND_BOUNDING_BOX.maxLng
+    )
+    .map((school) => ({
+      path: `schools[${school.urn}]`,
+      message: `${school.name} is outside the box around England (${school.lat}, ${school.lng})`,
+    }));
+}
+
+// Schools without an authority code can't be checked, so they're left out
+function findOutsideEngland(schools: School[]): ValidationIssue[] {
+  return schools
+    .filter((school) => school.laGssCode !== null && !isEnglishGssCode(school.laGssCode))
+    .map((school) => ({
+      path: `schools[${school.urn}]`,
+      message: `${school.name} is in ${school.laName} (${school.laGssCode}), which isn't an English authority`,
+    }));
+}
+
+function compareCoverage(
+  level: string,
+  boundaries: Set<string>,
+  metrics: Set<string>
+): { missingMetrics: ValidationIssue[]; missingBoundaries: ValidationIssue[] } {
+  return {
+    missingMetrics: Array.from(boundaries)
+      .filter((name) => !metrics.has(name))
+      .map((name) => ({ path: name, message: `Has a ${level} boundary but no metrics` })),
+    missingBoundaries: Array.from(metrics)
+      .filter((name) => !boundaries.has(name))
+      .map((name) => ({ path: name, message: `Has ${level} metrics but no boundary` })),
+  };
+}
+
+function report(title: string, issues: ValidationIssue[]): void {
+  if (issues.length === 0) {
+    console.log(`  ${title}: OK`);
+    return;
+  }
+  console.log(`  ${title}: ${issues.length} issues`);
+  console.log(formatIssues(issues));
+}
+
+async function main() {
+  console.log("=== Data quality report ===\n");
+
+  const schools = readJson(SCHOOLS_PATH);
+  const boundaries = readJson(BOUNDARIES_PATH);
+  const sectors = readJson(SECTORS_PATH);
+  const metrics = readJson(METRICS_PATH);
+
+  let errors = 0;
+  let warnings = 0;
+
+  // schools.json
+  console.log("schools.json");
+  if (schools === null) {
+    console.log("  Missing - run 'npm run process-data' first");
+    errors++;
+  } else {
+    const schemaIssues = validateSchools(schools);
+    report("Schema", schemaIssues);
+    errors += schemaIssues.length;
+
+    // Cross-record checks need well-formed records to be meaningful
+    if (schemaIssues.length === 0) {
+      const records = (schools as SchoolsArtifact).schools;
+      console.log(`  ${records.length} schools`);
+
+      const duplicates = findDuplicateUrns(records);
+      report("Duplicate URNs", duplicates);
+      errors += duplicates.length;
+
+      const outOfBounds = findOutOfBounds(records);
+      report("Outside the box around England", outOfBounds);
+      errors += outOfBounds.length;
+
+      const outsideEngland = findOutsideEngland(records);
+      report("Not in an English local authority", outsideEngland);
+      errors += outsideEngland.length;
+
+      const withoutDistrict = records
+        .filter((school) => school.district === null)
+        .map((school) => ({
+          path: `schools[${school.urn}]`,
+          message: `${school.name} isn't in any postcode district boundary`,
+        }));
+      report("Assigned a district", withoutDistrict);
+      warnings += withoutDistrict.length;
+    }
+  }
+
+  // postcode-districts.json
+  console.log("\npostcode-districts.json");
+  let boundaryDistricts: Set<string> | null = null;
+  if (boundaries === null) {
+    console.log("  Missing - run 'npm run process-boundaries' first");
+    errors++;
+  } else {
+    const schemaIssues = validateBoundaries(boundaries);
+    report("Schema", schemaIssues);
+    errors += schemaIssues.length;
+    if (schemaIssues.length === 0) {
+      boundaryDistricts = new Set(
+        boundaryFeatures(boundaries as PostcodeDistrictsArtifact).map(
+          (feature) => feature.properties.district
+        )
+      );
+      console.log(`  ${boundaryDistricts.size} districts`);
+    }
+  }
+
+  // The other levels of detail should hold the same districts as the main file
+  const detailFiles = Object.values(DISTRICT_BOUNDARY_FILES).filter(
+    (artifact) => artifact !== "postcode-districts.json"
+  );
+  for (const artifact of detailFiles) {
+    console.log(`\n${artifact}`);
+    const level = readJson(path.join(DATA_DIR, artifact));
+    if (level === null) {
+      console.log("  Missing - run 'npm run process-boundaries' first");
+      errors++;
+      continue;
+    }
+    const schemaIssues = validateBoundaries(level, artifact);
+    report("Schema", schemaIssues);
+    errors += schemaIssues.length;
+    if (schemaIssues.length === 0 && boundaryDistricts) {
+      const levelDistricts = new Set(
+        boundaryFeatures(level as PostcodeDistrictsArtifact).map(
+          (feature) => feature.properties.district
+        )
+      );
+      const mismatches = [
+        ...Array.from(levelDistricts)
+          .filter((district) => !boundaryDistricts.has(district))
+          .map((district) => ({ path: district, message: "Not in postcode-districts.json" })),
+        ...Array.from(boundaryDistricts)
+          .filter((district) => !levelDistricts.has(district))
+          .map((district) => ({ path: district, message: "Missing from this level" })),
+      ];
+      report("Matches postcode-districts.json", mismatches);
+      warnings += mismatches.length;
+    }
+  }
+
+  // postcode-sectors.json
+  console.log("\npostcode-sectors.json");
+  let boundarySectors: Set<string> | null = null;
+  if (sectors === null) {
+    console.log("  Missing - run 'npm run process-boundaries' first");
+    errors++;
+  } else {
+    const schemaIssues = validateSectorBoundaries(sectors);
+    report("Schema", schemaIssues);
+    errors += schemaIssues.length;
+    if (schemaIssues.length === 0) {
+      boundarySectors = new Set(
+        boundaryFeatures(sectors as PostcodeSectorsArtifact).map(
+          (feature) => feature.properties.sector
+        )
+      );
+      console.log(`  ${boundarySectors.size} sectors`);
+    }
+  }
+
+  // district-metrics.json
+  console.log("\ndistrict-metrics.json");
+  let metricDistricts: Set<string> | null = null;
+  let metricSectors: Set<string> | null = null;
+  if (metrics === null) {
+    console.log("  Missing - run 'npm run process-commute-times' first");
+    errors++;
+  } else {
+    const schemaIssues = validateDistrictMetrics(metrics);
+    report("Schema", schemaIssues);
+    errors += schemaIssues.length;
+    if (schemaIssues.length === 0) {
+      metricDistricts = new Set(Object.keys((metrics as DistrictMetricsArtifact).districts));
+      metricSectors = new Set(Object.keys((metrics as DistrictMetricsArtifact).sectors));
+      console.log(`  ${metricDistricts.size} districts, ${metricSectors.size} sectors`);
+    }
+  }
+
+  // Districts should line up between the two heat-map files
+  if (boundaryDistricts && metricDistricts) {
+    console.log("\nDistrict coverage");
+    const { missingMetrics, missingBoundaries } = compareCoverage(
+      "district",
+      boundaryDistricts,
+      metricDistricts
+    );
+    report("Boundaries without metrics", missingMetrics);
+    report("Metrics without boundaries", missingBoundaries);
+    warnings += missingMetrics.length + missingBoundaries.length;
+  }
+
+  // Sector boundaries are optional, so only compare sectors once some have been processed
+  if (boundarySectors && boundarySectors.size > 0 && metricSectors) {
+    console.log("\nSector coverage");
+    const { missingMetrics, missingBoundaries } = compareCoverage(
+      "sector",
+      boundarySectors,
+      metricSectors
+    );
+    report("Boundaries without metrics", missingMetrics);
+    report("Metrics without boundaries", missingBoundaries);
+    warnings += missingMetrics.length + missingBoundaries.length;
+  }
+
+  console.log(`\n${errors} errors, ${warnings} warnings`);
+  if (errors > 0) {
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
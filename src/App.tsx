@@ -10,24 +10,99 @@ import "leaflet.markercluster/dist/MarkerCluster.css";
 import "leaflet.markercluster/dist/MarkerCluster.Default.css";
 import "leaflet.markercluster";
 import {
-  School,
   SchoolType,
-  PhaseOfEducation,
+  PhaseFilter,
   FundingType,
   AdmissionsPolicy,
+  SchoolStatus,
+  GenderIntake,
+  SixthFormProvision,
+  ReligiousCharacter,
+  SenProvision,
   OfstedRating,
+  OfstedArea,
+  ReportCardArea,
+  ReportCardGrade,
+  ReportCardGradeFilter,
+  CapacityStatus,
+  SchoolSortKey,
+  ContextMetric,
+  StaleRatingMode,
   HeatMapLayerType,
-  DistrictMetricsMap,
   ColorScaleConfig,
   SCHOOL_TYPES,
-  PHASES,
+  PHASE_FILTERS,
+  PHASE_COVERAGE,
   FUNDING_TYPES,
   ADMISSIONS_POLICIES,
+  SCHOOL_STATUSES,
+  GENDER_INTAKES,
+  SIXTH_FORM_PROVISIONS,
+  RELIGIOUS_CHARACTERS,
+  SEN_PROVISIONS,
   OFSTED_RATINGS,
+  CAPACITY_STATUSES,
+  NEAR_CAPACITY_THRESHOLD,
+  OFSTED_AGE_LIMITS,
+  OFSTED_AREAS,
+  REPORT_CARD_AREAS,
+  REPORT_CARD_GRADE_FILTERS,
+  SCHOOL_SORT_OPTIONS,
+  PROGRESS8_THRESHOLDS,
+  CONTEXT_METRICS,
+  BoundaryDetail,
+  SECTOR_MIN_ZOOM,
 } from "./types";
-import schoolsData from "./data/schools.json";
+import {
+  ArtifactName,
+  School,
+  SchoolsArtifact,
+  SchoolChange,
+  SchoolChangelog,
+  DistrictMetricsMap,
+  DistrictMetricsArtifact,
+  BoundaryArtifact,
+  BoundaryFeature,
+  PostcodeDistrictsArtifact,
+  PostcodeSectorsArtifact,
+  DISTRICT_BOUNDARY_FILES,
+  TileIndex,
+  TileSet,
+  DistrictTile,
+  SectorTile,
+  SchoolTile,
+  SchoolSummary,
+  checkArtifactVersion,
+} from "./contract";
+import {
+  ValidationIssue,
+  formatIssues,
+  validateSchools,
+  validSchools,
+  validateTileIndex,
+  validSchoolSummaries,
+  validateDistrictMetrics,
+  validateSectorBoundaries,
+  validateBoundaries,
+} from "./schema";
 import { HeatMapLayer } from "./components/HeatMapLayer";
 import { LayerControls } from "./components/LayerControls";
+import { TrustPanel } from "./components/TrustPanel";
+import { LocalAuthorityLayer } from "./components/LocalAuthorityLayer";
+import { ChangesPanel } from "./components/ChangesPanel";
+import { getOfstedClass, getReportCardClass } from "./utils/ofsted";
+import { formatProgress, sortSchools } from "./utils/schoolSort";
+import { boundaryFeatures } from "./utils/topojson";
+import { parseIsoDate } from "./utils/dates";
+import { TileBounds, tilesInBounds } from "./utils/tiles";
+import {
+  ChildAgeInput,
+  ChildAgeMode,
+  getAgeAtIntake,
+  getNextIntakeYear,
+  schoolCoversAge,
+  formatYearGroup,
+} from "./utils/childAge";
 
 // Fix Leaflet default marker icon
 import iconUrl from "leaflet/dist/images/marker-icon.png";
@@ -64,23 +139,50 @@ const highlightedIcon = new L.Icon({
   className: "highlighted-marker",
 });
 
+interface PercentRange {
+  min: number;
+  max: number;
+}
+
+const FULL_PERCENT_RANGE: PercentRange = { min: 0, max: 100 };
+
 interface Filters {
   types: Set<SchoolType>;
-  phases: Set<PhaseOfEducation>;
+  phases: Set<PhaseFilter>;
+  childAge: ChildAgeInput;
+  localAuthority: string | null;
+  minKs2Expected: number;
+  minProgress8: number | null;
+  contextRanges: Record<ContextMetric, PercentRange>;
   funding: Set<FundingType>;
   admissions: Set<AdmissionsPolicy>;
+  statuses: Set<SchoolStatus>;
+  genders: Set<GenderIntake>;
+  sixthForms: Set<SixthFormProvision>;
+  religiousCharacters: Set<ReligiousCharacter>;
+  senProvisions: Set<SenProvision>;
   ofsted: Set<OfstedRating>;
+  ofstedArea: OfstedArea | "overall";
+  reportCardGrades: Set<ReportCardGradeFilter>;
+  reportCardArea: ReportCardArea;
+  capacity: Set<CapacityStatus>;
+  ofstedMaxAge: number | null;
+  staleRatingMode: StaleRatingMode;
 }
 
 // Marker cluster component
 function MarkerClusterGroup({
   schools,
-  highlightedUrn,
+  getLoadedSchool,
+  highlightedUrns,
+  fadedUrns,
   onMarkerClick,
 }: {
-  schools: School[];
-  highlightedUrn: string | null;
-  onMarkerClick: (school: School) => void;
+  schools: SchoolSummary[];
+  getLoadedSchool: (urn: string) => School | undefined;
+  highlightedUrns: Set<string>;
+  fadedUrns: Set<string>;
+  onMarkerClick: (school: SchoolSummary) => void;
 }) {
   const map = useMap();
   const clusterRef = useRef<L.MarkerClusterGroup | null>(null);
@@ -105,24 +207,18 @@ function MarkerClusterGroup({
 
     // Add markers
     const markers = schools.map((school) => {
-      const isHighlighted = school.urn === highlightedUrn;
+      const isHighlighted = highlightedUrns.has(school.urn);
+      const isFaded = fadedUrns.has(school.urn);
       const marker = L.marker([school.lat, school.lng], {
         icon: isHighlighted ? highlightedIcon : schoolIcon,
+        opacity: isFaded && !isHighlighted ? 0.45 : 1,
       });
 
-      const ofstedClass = getOfstedClass(school.ofsted);
-      const isGrammar = school.admissions === "Selective";
-      const fundingLabel = school.funding === "Independent" ? "Independent" : school.type;
-      marker.bindPopup(`
-        <div class="school-popup">
-          <h3>${escapeHtml(school.name)}</h3>
-          <p><span class="label">Phase:</span> ${escapeHtml(school.phase)}${isGrammar ? ' <span class="grammar-badge">Grammar</span>' : ''}</p>
-          <p><span class="label">Type:</span> ${escapeHtml(fundingLabel)}</p>
-          <p><span class="label">Ofsted:</span> <span class="ofsted-badge ${ofstedClass}">${escapeHtml(school.ofsted)}</span></p>
-          <p><span class="label">Address:</span> ${escapeHtml(school.address)}</p>
-          <p><span class="label">Postcode:</span> ${escapeHtml(school.postcode)}</p>
-        </div>
-      `);
+      // Built when opened, since the school's tile may have loaded since
+      marker.bindPopup(() => {
+        const loaded = getLoadedSchool(school.urn);
+        return loaded ? formatPopup(loaded, isFaded) : formatSummaryPopup(school, isFaded);
+      });
 
       marker.on("click", () => onMarkerClick(school));
 
@@ -138,7 +234,7 @@ function MarkerClusterGroup({
         map.removeLayer(clusterRef.current);
       }
     };
-  }, [map, schools, highlightedUrn, onMarkerClick]);
+  }, [map, schools, getLoadedSchool, highlightedUrns, fadedUrns, onMarkerClick]);
 
   return null;
 }
@@ -147,9 +243,11 @@ function MarkerClusterGroup({
 function MapController({
   center,
   zoom,
+  bounds,
 }: {
   center: [number, number] | null;
   zoom: number | null;
+  bounds: L.LatLngBounds | null;
 }) {
   const map = useMap();
 
@@ -159,6 +257,45 @@ function MapController({
     }
   }, [map, center, zoom]);
 
+  useEffect(() => {
+    if (bounds && bounds.isValid()) {
+      map.flyToBounds(bounds, { duration: 1, padding: [40, 40], maxZoom: 14 });
+    }
+  }, [map, bounds]);
+
+  return null;
+}
+
+interface Viewport {
+  bounds: TileBounds;
+  zoom: number;
+}
+
+// Reports the area on screen and the zoom, so the tiles covering it can be loaded
+function ViewportTracker({ onChange }: { onChange: (viewport: Viewport) => void }) {
+  const map = useMap();
+
+  useEffect(() => {
+    const report = () => {
+      const bounds = map.getBounds();
+      onChange({
+        bounds: {
+          west: bounds.getWest(),
+          south: bounds.getSouth(),
+          east: bounds.getEast(),
+          north: bounds.getNorth(),
+        },
+        zoom: map.getZoom(),
+      });
+    };
+
+    report();
+    map.on("moveend", report);
+    return () => {
+      map.off("moveend", report);
+    };
+  }, [map, onChange]);
+
   return null;
 }
 
@@ -168,74 +305,668 @@ function escapeHtml(text: string): string {
   return div.innerHTML;
 }
 
-function getOfstedClass(rating: OfstedRating): string {
-  const classes: Record<OfstedRating, string> = {
-    Outstanding: "ofsted-outstanding",
-    Good: "ofsted-good",
-    "Requires Improvement": "ofsted-requires-improvement",
-    Inadequate: "ofsted-inadequate",
-    "Not yet inspected": "ofsted-not-inspected",
-  };
-  return classes[rating] || "ofsted-not-inspected";
+function isProposedToClose(school: SchoolSummary): boolean {
+  return school.status === "Open, but proposed to close";
+}
+
+function formatCloseDate(isoDate: string): string {
+  const date = parseIsoDate(isoDate);
+  if (!date) return isoDate;
+  return date.toLocaleDateString("en-GB", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+}
+
+interface DataFileCheck {
+  usable: boolean; // False if the file is in a different format version
+  problem: string | null; // Shown in the data warning banner
+}
+
+/**
+ * Check a loaded data file's format version and contents. A file in another
+ * format version isn't used at all; one with some invalid records still is.
+ */
+function checkDataFile(
+  artifact: ArtifactName,
+  data: unknown,
+  validate?: (data: unknown) => ValidationIssue[]
+): DataFileCheck {
+  const versionProblem = checkArtifactVersion(artifact, data);
+  if (versionProblem) {
+    console.warn(versionProblem);
+    return { usable: false, problem: `${versionProblem}, so it isn't shown` };
+  }
+
+  const issues = validate ? validate(data) : [];
+  if (issues.length === 0) {
+    return { usable: true, problem: null };
+  }
+  console.warn(`${artifact} failed validation (${issues.length} issues):\n${formatIssues(issues)}`);
+  return { usable: true, problem: `${artifact} failed validation, so parts of the map may be wrong` };
+}
+
+// Boundary files may be GeoJSON or TopoJSON; Leaflet needs GeoJSON
+function toFeatureCollection<P>(artifact: BoundaryArtifact<P>): GeoJSON.FeatureCollection {
+  return {
+    type: "FeatureCollection",
+    features: boundaryFeatures(artifact),
+  } as GeoJSON.FeatureCollection;
+}
+
+// Each level of detail is a separate chunk, loaded the first time the map needs it
+const DISTRICT_BOUNDARY_LOADERS: Record<BoundaryDetail, () => Promise<{ default: unknown }>> = {
+  low: () => import("./data/postcode-districts-low.json"),
+  medium: () => import("./data/postcode-districts.json"),
+  high: () => import("./data/postcode-districts-high.json"),
+};
+
+// Map tiles from 'npm run build-tiles', served from public/tiles
+const TILES_URL = `${import.meta.env.BASE_URL}tiles`;
+
+// Map zoom from which school tiles are loaded. Further out, markers are drawn
+// from the summaries in the tile index, and a screen would need too many tiles.
+const SCHOOL_TILE_MIN_ZOOM = 11;
+
+// The tile index, or null if the tiles haven't been built
+async function loadTileIndex(): Promise<unknown> {
+  try {
+    const response = await fetch(`${TILES_URL}/tiles.json`, {
+      headers: { Accept: "application/json" },
+    });
+    return response.ok ? await response.json() : null;
+  } catch {
+    // The dev server answers a missing file with the app's HTML, which isn't JSON
+    return null;
+  }
+}
+
+// Tiles are written with their index, which has already been checked. School
+// tiles are checked as they arrive, since a bad record breaks the filters.
+function loadTiles<T>(
+  layer: "districts" | "sectors" | "schools",
+  tileSet: TileSet,
+  keys: string[]
+): Promise<T[]> {
+  return Promise.all(
+    keys.map(async (key) => {
+      const response = await fetch(`${TILES_URL}/${layer}/${tileSet.zoom}/${key}.json`);
+      if (!response.ok) {
+        throw new Error(`${layer} tile ${tileSet.zoom}/${key}: HTTP ${response.status}`);
+      }
+      return (await response.json()) as T;
+    })
+  );
+}
+
+/**
+ * Tiles of a tile set that cover the bounds and haven't been requested yet,
+ * which are then marked as requested.
+ */
+function claimTiles(tileSet: TileSet, bounds: TileBounds, requested: Set<string>): string[] {
+  const available = new Set(tileSet.tiles);
+  const keys = tilesInBounds(bounds, tileSet.zoom).filter(
+    (key) => available.has(key) && !requested.has(`${tileSet.zoom}/${key}`)
+  );
+  keys.forEach((key) => requested.add(`${tileSet.zoom}/${key}`));
+  return keys;
+}
+
+// A district or sector crossing several tiles is in each of them, so keep one copy
+function mergeBoundaryTiles<P>(
+  loaded: GeoJSON.FeatureCollection | null | undefined,
+  tiles: { features: BoundaryFeature<P>[] }[],
+  nameProperty: keyof P & string
+): GeoJSON.FeatureCollection {
+  const features = new Map<string, GeoJSON.Feature>();
+  for (const feature of loaded?.features ?? []) {
+    features.set(feature.properties?.[nameProperty], feature);
+  }
+  for (const tile of tiles) {
+    for (const feature of tile.features) {
+      const name = String(feature.properties[nameProperty]);
+      if (!features.has(name)) {
+        features.set(name, feature as unknown as GeoJSON.Feature);
+      }
+    }
+  }
+  return { type: "FeatureCollection", features: Array.from(features.values()) };
+}
+
+function formatClosureWarning(school: School): string {
+  if (!isProposedToClose(school)) return "";
+  const details: string[] = [];
+  if (school.closeDate) {
+    details.push(`Closing ${formatCloseDate(school.closeDate)}`);
+  }
+  if (school.closeReason) {
+    details.push(escapeHtml(school.closeReason));
+  }
+  return `<p><span class="closing-badge">Proposed to close</span>${details.length > 0 ? ` ${details.join(" · ")}` : ""}</p>`;
+}
+
+function formatOfstedHistory(school: School): string {
+  const details: string[] = [];
+  if (school.ofstedDate) {
+    details.push(`inspected ${school.ofstedDate.slice(0, 4)}`);
+  }
+  if (school.ofstedPrevious !== "Not yet inspected") {
+    details.push(`previously ${school.ofstedPrevious}`);
+  }
+  return details.length > 0 ? ` (${details.join(", ")})` : "";
+}
+
+function formatOfstedAreas(school: School): string {
+  const rows = OFSTED_AREAS.filter((area) => school.ofstedAreas[area.value]).map((area) => {
+    const rating = school.ofstedAreas[area.value] as OfstedRating;
+    return `<span>${escapeHtml(area.label)}</span><span class="ofsted-badge ${getOfstedClass(rating)}">${escapeHtml(rating)}</span>`;
+  });
+  return rows.length > 0 ? `<div class="ofsted-grid">${rows.join("")}</div>` : "";
+}
+
+function formatReportCard(school: School): string {
+  const reportCard = school.ofstedReportCard;
+  if (!reportCard) return "";
+  const rows = REPORT_CARD_AREAS.filter((area) => reportCard.grades[area.value]).map((area) => {
+    const grade = reportCard.grades[area.value] as ReportCardGrade;
+    return `<span>${escapeHtml(area.label)}</span><span class="ofsted-badge ${getReportCardClass(grade)}">${escapeHtml(grade)}</span>`;
+  });
+  if (reportCard.safeguarding) {
+    rows.push(`<span>Safeguarding</span><span>${escapeHtml(reportCard.safeguarding)}</span>`);
+  }
+  return `<p><span class="label">Report card:</span></p><div class="ofsted-grid">${rows.join("")}</div>`;
+}
+
+// Popup for a school whose tile has loaded
+function formatPopup(school: School, isFaded: boolean): string {
+  const ofstedClass = getOfstedClass(school.ofsted);
+  const isGrammar = school.admissions === "Selective";
+  const fundingLabel = school.funding === "Independent" ? "Independent" : school.type;
+  const faithLabel =
+    school.religiousCharacter !== "None" ? ` (${school.religiousEthos ?? school.religiousCharacter})` : "";
+  return `
+    <div class="school-popup">
+      <h3>${escapeHtml(school.name)}</h3>
+      ${formatClosureWarning(school)}
+      <p><span class="label">Phase:</span> ${escapeHtml(school.phase)}${isGrammar ? ' <span class="grammar-badge">Grammar</span>' : ''} <span class="gender-badge">${escapeHtml(school.gender)}</span></p>
+      ${school.lowAge !== null && school.highAge !== null ? `<p><span class="label">Ages:</span> ${school.lowAge}–${school.highAge}</p>` : ''}
+      ${school.sixthForm === "Has sixth form" || school.sixthForm === "No sixth form" ? `<p><span class="label">Sixth form:</span> ${school.sixthForm === "Has sixth form" ? "Yes" : "No"}</p>` : ''}
+      <p><span class="label">Type:</span> ${escapeHtml(fundingLabel + faithLabel)}</p>
+      <p><span class="label">Local authority:</span> ${escapeHtml(school.laName)}</p>
+      ${school.trustName ? `<p><span class="label">Trust:</span> ${escapeHtml(school.trustName)}</p>` : ''}
+      <p><span class="label">Ofsted:</span> <span class="ofsted-badge ${ofstedClass}">${escapeHtml(school.ofsted)}</span>${escapeHtml(formatOfstedHistory(school))}${isFaded ? ' <span class="stale-note">May be out of date</span>' : ''}</p>
+      ${formatOfstedAreas(school)}
+      ${formatReportCard(school)}
+      ${school.ofstedInspectionType ? `<p><span class="label">Inspection type:</span> ${escapeHtml(school.ofstedInspectionType)}</p>` : ''}
+      ${formatKs2(school)}
+      ${formatKs4(school)}
+      ${formatContext(school)}
+      ${formatSenProvision(school)}
+      ${school.pupils !== null ? `<p><span class="label">Pupils:</span> ${formatCapacity(school)}</p>` : ''}
+      ${formatDistrict(school)}
+      <p><span class="label">Address:</span> ${escapeHtml(school.address)}</p>
+      <p><span class="label">Postcode:</span> ${escapeHtml(school.postcode)}</p>
+      ${school.locationPrecision === "postcode" ? '<p class="location-note">Location approximate (postcode centre)</p>' : ''}
+    </div>
+  `;
+}
+
+// Popup for a school known only from the tile index, before its tile loads
+function formatSummaryPopup(school: SchoolSummary, isFaded: boolean): string {
+  const ofstedClass = getOfstedClass(school.ofsted);
+  return `
+    <div class="school-popup">
+      <h3>${escapeHtml(school.name)}</h3>
+      ${isProposedToClose(school) ? '<p><span class="closing-badge">Proposed to close</span></p>' : ''}
+      <p><span class="label">Phase:</span> ${escapeHtml(school.phase)} <span class="gender-badge">${escapeHtml(school.gender)}</span></p>
+      <p><span class="label">Local authority:</span> ${escapeHtml(school.laName)}</p>
+      <p><span class="label">Ofsted:</span> <span class="ofsted-badge ${ofstedClass}">${escapeHtml(school.ofsted)}</span>${isFaded ? ' <span class="stale-note">May be out of date</span>' : ''}</p>
+      <p><span class="label">Postcode:</span> ${escapeHtml(school.postcode)}</p>
+      <p class="location-note">Zoom in for full details</p>
+    </div>
+  `;
+}
+
+function getReportCardGrade(school: SchoolSummary, area: ReportCardArea): ReportCardGradeFilter {
+  return school.ofstedReportCard?.grades[area] ?? "Not graded";
+}
+
+function getOfstedRatingForArea(school: SchoolSummary, area: OfstedArea | "overall"): OfstedRating {
+  if (area === "overall") {
+    return school.ofsted;
+  }
+  return school.ofstedAreas[area] ?? "Not yet inspected";
+}
+
+function isOfstedStale(school: SchoolSummary, maxAgeYears: number | null): boolean {
+  if (maxAgeYears === null || !school.ofstedDate) {
+    return false;
+  }
+  const inspected = parseIsoDate(school.ofstedDate);
+  if (!inspected) {
+    return false;
+  }
+  const cutoff = new Date();
+  cutoff.setFullYear(cutoff.getFullYear() - maxAgeYears);
+  return inspected < cutoff;
+}
+
+interface TrustSearchResult {
+  code: string;
+  name: string;
+  schoolCount: number;
+}
+
+function formatKs2(school: School): string {
+  if (!school.ks2) return "";
+  const { expectedRwm, higherRwm, readingProgress, writingProgress, mathsProgress } = school.ks2;
+  const lines: string[] = [];
+  if (expectedRwm !== null) {
+    lines.push(
+      `<p><span class="label">KS2:</span> ${expectedRwm}% expected standard${higherRwm !== null ? `, ${higherRwm}% higher` : ""} (RWM)</p>`
+    );
+  }
+  if (readingProgress !== null || writingProgress !== null || mathsProgress !== null) {
+    lines.push(
+      `<p><span class="label">KS2 progress:</span> Reading ${formatProgress(readingProgress)}, Writing ${formatProgress(writingProgress)}, Maths ${formatProgress(mathsProgress)}</p>`
+    );
+  }
+  return lines.join("");
+}
+
+function formatKs4(school: School): string {
+  const lines: string[] = [];
+  if (school.ks4) {
+    const { progress8, attainment8, ebaccEntry, grade5EnglishMaths } = school.ks4;
+    if (progress8 !== null || attainment8 !== null) {
+      lines.push(
+        `<p><span class="label">KS4:</span> Progress 8 ${formatProgress(progress8)}, Attainment 8 ${attainment8 ?? "n/a"}</p>`
+      );
+    }
+    if (grade5EnglishMaths !== null || ebaccEntry !== null) {
+      lines.push(
+        `<p><span class="label">GCSE:</span> ${grade5EnglishMaths ?? "n/a"}% grade 5+ English & maths, ${ebaccEntry ?? "n/a"}% EBacc entry</p>`
+      );
+    }
+  }
+  if (school.post16?.aLevelPointScore != null) {
+    const grade = school.post16.aLevelGrade ? ` (${escapeHtml(school.post16.aLevelGrade)})` : "";
+    lines.push(
+      `<p><span class="label">A level:</span> ${school.post16.aLevelPointScore} average points per entry${grade}</p>`
+    );
+  }
+  return lines.join("");
+}
+
+function formatContext(school: School): string {
+  const parts: string[] = [];
+  if (school.fsmPercent !== null) parts.push(`${school.fsmPercent}% FSM`);
+  if (school.ealPercent !== null) parts.push(`${school.ealPercent}% EAL`);
+  if (school.senPercent !== null) parts.push(`${school.senPercent}% SEN`);
+  return parts.length > 0
+    ? `<p><span class="label">Context:</span> ${parts.join(", ")}</p>`
+    : "";
+}
+
+function formatDistrict(school: School): string {
+  if (!school.district) return "";
+  const parts: string[] = [];
+  const metrics = school.districtMetrics;
+  if (metrics && metrics.medianPrice !== null) {
+    parts.push(`median house price £${metrics.medianPrice.toLocaleString()}`);
+  }
+  if (metrics && metrics.commuteMinutes !== null) {
+    parts.push(`about ${metrics.commuteMinutes} min to central London`);
+  }
+  const details = parts.length > 0 ? ` (${parts.join(", ")})` : "";
+  return `<p><span class="label">Postcode district:</span> ${escapeHtml(school.district)}${details}</p>`;
+}
+
+function formatSenProvision(school: School): string {
+  if (school.senProvision === "None") return "";
+  const places =
+    school.senPlaces === null
+      ? ""
+      : school.senOnRoll === null
+        ? ` (${school.senPlaces} places)`
+        : ` (${school.senOnRoll} of ${school.senPlaces} places taken)`;
+  const needs =
+    school.senNeeds.length > 0
+      ? `<p><span class="label">Needs catered for:</span> ${escapeHtml(school.senNeeds.join(", "))}</p>`
+      : "";
+  return `<p><span class="label">SEN provision:</span> ${escapeHtml(school.senProvision)}${places}</p>${needs}`;
+}
+
+function matchesPercentRange(value: number | null, range: PercentRange): boolean {
+  // Schools without the figure only drop out once the range is narrowed
+  if (range.min <= FULL_PERCENT_RANGE.min && range.max >= FULL_PERCENT_RANGE.max) {
+    return true;
+  }
+  return value !== null && value >= range.min && value <= range.max;
+}
+
+function getCapacityStatus(school: SchoolSummary): CapacityStatus {
+  if (school.fillPercent === null) {
+    return "Unknown";
+  }
+  if (school.fillPercent > 100) {
+    return "Over capacity";
+  }
+  if (school.fillPercent >= NEAR_CAPACITY_THRESHOLD) {
+    return "Near capacity";
+  }
+  return "Spaces likely";
+}
+
+function formatCapacity(school: School): string {
+  const pupils = (school.pupils ?? 0).toLocaleString();
+  if (school.capacity === null || school.fillPercent === null) {
+    return pupils;
+  }
+  return `${pupils} of ${school.capacity.toLocaleString()} (${school.fillPercent}% full)`;
 }
 
 export default function App() {
   const [loading, setLoading] = useState(true);
-  const [schools] = useState<School[]>(schoolsData as School[]);
+  const [schools, setSchools] = useState<School[]>([]);
+  // Undefined until the tile index has been looked for, null if there isn't one
+  const [tileIndex, setTileIndex] = useState<TileIndex | null | undefined>(undefined);
+  const [viewport, setViewport] = useState<Viewport | null>(null);
+  // Tiles already requested, as "z/x/y"
+  const requestedTilesRef = useRef({
+    districts: new Set<string>(),
+    sectors: new Set<string>(),
+    schools: new Set<string>(),
+  });
   const [searchQuery, setSearchQuery] = useState("");
+  const [searchMode, setSearchMode] = useState<"schools" | "trusts">("schools");
+  const [searchSort, setSearchSort] = useState<SchoolSortKey>("relevance");
+  const [selectedTrustCode, setSelectedTrustCode] = useState<string | null>(null);
   const [filters, setFilters] = useState<Filters>({
     types: new Set(SCHOOL_TYPES),
-    phases: new Set(PHASES),
+    phases: new Set(PHASE_FILTERS),
+    childAge: {
+      mode: "date-of-birth",
+      dateOfBirth: "",
+      currentAge: "",
+      intakeYear: getNextIntakeYear(),
+    },
+    localAuthority: null,
+    minKs2Expected: 0,
+    minProgress8: null,
+    contextRanges: {
+      fsmPercent: FULL_PERCENT_RANGE,
+      ealPercent: FULL_PERCENT_RANGE,
+      senPercent: FULL_PERCENT_RANGE,
+    },
     funding: new Set(FUNDING_TYPES),
     admissions: new Set(ADMISSIONS_POLICIES),
+    statuses: new Set(SCHOOL_STATUSES),
+    genders: new Set(GENDER_INTAKES),
+    sixthForms: new Set(SIXTH_FORM_PROVISIONS),
+    religiousCharacters: new Set(RELIGIOUS_CHARACTERS),
+    senProvisions: new Set(SEN_PROVISIONS),
     ofsted: new Set(OFSTED_RATINGS),
+    ofstedArea: "overall",
+    reportCardGrades: new Set(REPORT_CARD_GRADE_FILTERS),
+    reportCardArea: "inclusion",
+    capacity: new Set(CAPACITY_STATUSES),
+    ofstedMaxAge: null,
+    staleRatingMode: "fade",
   });
   const [highlightedUrn, setHighlightedUrn] = useState<string | null>(null);
   const [mapCenter, setMapCenter] = useState<[number, number] | null>(null);
   const [mapZoom, setMapZoom] = useState<number | null>(null);
+  const [mapBounds, setMapBounds] = useState<L.LatLngBounds | null>(null);
 
   // Heat map layer state
   const [heatMapLayer, setHeatMapLayer] = useState<HeatMapLayerType>("none");
-  const [geojsonData, setGeojsonData] =
-    useState<GeoJSON.FeatureCollection | null>(null);
+  const [boundaryDetail, setBoundaryDetail] = useState<BoundaryDetail>("low");
+  const [districtBoundaries, setDistrictBoundaries] = useState<
+    Partial<Record<BoundaryDetail, GeoJSON.FeatureCollection>>
+  >({});
   const [districtMetrics, setDistrictMetrics] = useState<DistrictMetricsMap>(
     {}
   );
+  const [sectorGeojsonData, setSectorGeojsonData] =
+    useState<GeoJSON.FeatureCollection | null>(null);
+  const [sectorMetrics, setSectorMetrics] = useState<DistrictMetricsMap>({});
   const [dynamicScale, setDynamicScale] = useState<ColorScaleConfig | null>(
     null
   );
+  const [changelog, setChangelog] = useState<SchoolChangelog | null>(null);
+  const [showChanges, setShowChanges] = useState(false);
+  const [highlightChanges, setHighlightChanges] = useState(false);
+  const [laBoundaries, setLaBoundaries] =
+    useState<GeoJSON.FeatureCollection | null>(null);
+  const [dataProblems, setDataProblems] = useState<string[]>([]);
 
+  // Check a lazily loaded data file, reporting any problem. Returns true if it can be used.
+  const acceptDataFile = useCallback(
+    (artifact: ArtifactName, data: unknown, validate?: (data: unknown) => ValidationIssue[]) => {
+      const { usable, problem } = checkDataFile(artifact, data, validate);
+      if (problem) {
+        setDataProblems((prev) => (prev.includes(problem) ? prev : [...prev, problem]));
+      }
+      return usable;
+    },
+    []
+  );
+
+  // Load schools from the map tiles if they've been built, otherwise from the bundled file
   useEffect(() => {
-    // Simulate brief loading for data
-    setLoading(false);
-  }, []);
+    loadTileIndex()
+      .then((index) => {
+        if (index !== null && acceptDataFile("tiles.json", index, validateTileIndex)) {
+          const tiles = index as TileIndex;
+          setTileIndex({ ...tiles, schoolIndex: validSchoolSummaries(tiles.schoolIndex) });
+          return;
+        }
+        setTileIndex(null);
+        return import("./data/schools.json").then((module) => {
+          if (acceptDataFile("schools.json", module.default, validateSchools)) {
+            // Drop records that failed validation; the rest of the map relies on their shape
+            setSchools(validSchools((module.default as unknown as SchoolsArtifact).schools));
+          }
+        });
+      })
+      .catch((err) => {
+        console.error("Failed to load schools:", err);
+      })
+      .finally(() => {
+        setLoading(false);
+      });
+  }, [acceptDataFile]);
+
+  // Full records of the schools loaded so far, for their popups
+  const loadedSchoolsRef = useRef(new Map<string, School>());
+  useEffect(() => {
+    for (const school of schools) {
+      loadedSchoolsRef.current.set(school.urn, school);
+    }
+  }, [schools]);
+  const getLoadedSchool = useCallback((urn: string) => loadedSchoolsRef.current.get(urn), []);
+
+  // Once zoomed in, load the school tiles on screen that haven't been loaded yet
+  useEffect(() => {
+    if (!tileIndex || !viewport || viewport.zoom < SCHOOL_TILE_MIN_ZOOM) return;
+
+    const requested = requestedTilesRef.current.schools;
+    const keys = claimTiles(tileIndex.schools, viewport.bounds, requested);
+    if (keys.length === 0) return;
+
+    loadTiles<SchoolTile>("schools", tileIndex.schools, keys)
+      .then((tiles) => {
+        const loaded = tiles.flatMap((tile) =>
+          acceptDataFile("schools.json", tile, validateSchools) ? validSchools(tile.schools) : []
+        );
+        setSchools((prev) => [...prev, ...loaded]);
+      })
+      .catch((err) => {
+        // Let them be requested again
+        keys.forEach((key) => requested.delete(`${tileIndex.schools.zoom}/${key}`));
+        console.error("Failed to load school tiles:", err);
+      });
+  }, [tileIndex, viewport, acceptDataFile]);
 
   // Load GeoJSON and metrics data when heat map layer is enabled
   useEffect(() => {
     if (heatMapLayer === "none") return;
 
-    // Load GeoJSON boundaries if not already loaded
-    if (!geojsonData) {
-      import("./data/postcode-districts.json")
+    // Load the district boundaries for the current zoom: only the tiles on
+    // screen if the tiles have been built, otherwise the whole file
+    const districtTiles = tileIndex?.districts[boundaryDetail];
+    if (districtTiles) {
+      const requested = requestedTilesRef.current.districts;
+      const keys = viewport ? claimTiles(districtTiles, viewport.bounds, requested) : [];
+      if (keys.length > 0) {
+        loadTiles<DistrictTile>("districts", districtTiles, keys)
+          .then((tiles) => {
+            setDistrictBoundaries((prev) => ({
+              ...prev,
+              [boundaryDetail]: mergeBoundaryTiles(prev[boundaryDetail], tiles, "district"),
+            }));
+          })
+          .catch((err) => {
+            keys.forEach((key) => requested.delete(`${districtTiles.zoom}/${key}`));
+            console.error("Failed to load postcode district tiles:", err);
+          });
+      }
+    } else if (!districtBoundaries[boundaryDetail]) {
+      const artifact = DISTRICT_BOUNDARY_FILES[boundaryDetail];
+      DISTRICT_BOUNDARY_LOADERS[boundaryDetail]()
         .then((module) => {
-          setGeojsonData(module.default as GeoJSON.FeatureCollection);
+          const validate = (data: unknown) => validateBoundaries(data, artifact);
+          if (acceptDataFile(artifact, module.default, validate)) {
+            const data = toFeatureCollection(module.default as PostcodeDistrictsArtifact);
+            setDistrictBoundaries((prev) => ({ ...prev, [boundaryDetail]: data }));
+          }
         })
         .catch((err) => {
           console.error("Failed to load postcode districts:", err);
         });
     }
 
+    // Load sector boundaries once zoomed in far enough for them to be shown
+    // instead of districts: the tiles on screen, or else the whole file
+    const sectorTiles = tileIndex?.sectors;
+    const showSectors = viewport !== null && viewport.zoom >= SECTOR_MIN_ZOOM;
+    if (showSectors && sectorTiles) {
+      const requested = requestedTilesRef.current.sectors;
+      const keys = claimTiles(sectorTiles, viewport.bounds, requested);
+      if (keys.length > 0) {
+        loadTiles<SectorTile>("sectors", sectorTiles, keys)
+          .then((tiles) => {
+            setSectorGeojsonData((prev) => mergeBoundaryTiles(prev, tiles, "sector"));
+          })
+          .catch((err) => {
+            keys.forEach((key) => requested.delete(`${sectorTiles.zoom}/${key}`));
+            console.error("Failed to load postcode sector tiles:", err);
+          });
+      }
+    } else if (showSectors && !sectorGeojsonData) {
+      import("./data/postcode-sectors.json")
+        .then((module) => {
+          if (acceptDataFile("postcode-sectors.json", module.default, validateSectorBoundaries)) {
+            setSectorGeojsonData(toFeatureCollection(module.default as PostcodeSectorsArtifact));
+          }
+        })
+        .catch((err) => {
+          console.error("Failed to load postcode sectors:", err);
+        });
+    }
+
     // Load district metrics if not already loaded
     if (Object.keys(districtMetrics).length === 0) {
       import("./data/district-metrics.json")
         .then((module) => {
-          setDistrictMetrics(module.default as DistrictMetricsMap);
+          if (acceptDataFile("district-metrics.json", module.default, validateDistrictMetrics)) {
+            const artifact = module.default as unknown as DistrictMetricsArtifact;
+            setDistrictMetrics(artifact.districts);
+            setSectorMetrics(artifact.sectors);
+          }
         })
         .catch((err) => {
           console.error("Failed to load district metrics:", err);
         });
     }
-  }, [heatMapLayer, geojsonData, districtMetrics]);
+  }, [
+    heatMapLayer,
+    boundaryDetail,
+    districtBoundaries,
+    tileIndex,
+    viewport,
+    sectorGeojsonData,
+    districtMetrics,
+    acceptDataFile,
+  ]);
+
+  // Load the changelog from the last data refresh
+  useEffect(() => {
+    import("./data/changes.json")
+      .then((module) => {
+        if (acceptDataFile("changes.json", module.default)) {
+          setChangelog(module.default as unknown as SchoolChangelog);
+        }
+      })
+      .catch((err) => {
+        console.error("Failed to load changes:", err);
+      });
+  }, [acceptDataFile]);
+
+  // Load local authority outlines the first time an authority is picked
+  useEffect(() => {
+    if (!filters.localAuthority || laBoundaries) return;
+
+    import("./data/la-boundaries.json")
+      .then((module) => {
+        if (acceptDataFile("la-boundaries.json", module.default)) {
+          setLaBoundaries(module.default as GeoJSON.FeatureCollection);
+        }
+      })
+      .catch((err) => {
+        console.error("Failed to load local authority boundaries:", err);
+      });
+  }, [filters.localAuthority, laBoundaries, acceptDataFile]);
+
+  // Every school, in summary. With map tiles, only the schools on screen once
+  // zoomed in are loaded in full, so the map, filters, search, trusts and the
+  // authority list use the summaries in the tile index.
+  const allSchools = useMemo(
+    (): SchoolSummary[] => (tileIndex ? tileIndex.schoolIndex : schools),
+    [tileIndex, schools]
+  );
+
+  const localAuthorities = useMemo(
+    () => Array.from(new Set(allSchools.map((school) => school.laName))).sort(),
+    [allSchools]
+  );
+
+  // ONS code of each authority, to match its outline; GIAS and ONS spell
+  // some names differently ("Bristol, City of" and "Bristol")
+  const laGssCodes = useMemo(() => {
+    const codes = new Map<string, string>();
+    for (const school of allSchools) {
+      if (school.laGssCode && !codes.has(school.laName)) {
+        codes.set(school.laName, school.laGssCode);
+      }
+    }
+    return codes;
+  }, [allSchools]);
+
+  const selectedLaBoundary = useMemo(() => {
+    if (!filters.localAuthority || !laBoundaries) return null;
+    const code = laGssCodes.get(filters.localAuthority);
+    const name = filters.localAuthority.toLowerCase();
+    return (
+      laBoundaries.features.find((feature) =>
+        code
+          ? feature.properties?.code === code
+          : String(feature.properties?.name).toLowerCase() === name
+      ) ?? null
+    );
+  }, [filters.localAuthority, laBoundaries, laGssCodes]);
 
   const handleLayerChange = useCallback((layer: HeatMapLayerType) => {
     setHeatMapLayer(layer);
@@ -246,30 +977,142 @@ export default function App() {
     setDynamicScale(scale);
   }, []);
 
+  // Age the child will be when starting at the chosen intake (null when not set)
+  const childAgeAtIntake = useMemo(() => getAgeAtIntake(filters.childAge), [filters.childAge]);
+
   // Filter schools based on criteria
   const filteredSchools = useMemo(() => {
-    return schools.filter((school) => {
+    return allSchools.filter((school) => {
       const typeMatch = filters.types.has(school.type as SchoolType);
-      const phaseMatch = filters.phases.has(school.phase as PhaseOfEducation);
+      const phaseMatch = PHASE_COVERAGE[school.phase].some((phase) => filters.phases.has(phase));
+      const laMatch = !filters.localAuthority || school.laName === filters.localAuthority;
+      const childAgeMatch = childAgeAtIntake === null || schoolCoversAge(school, childAgeAtIntake);
       const fundingMatch = filters.funding.has(school.funding as FundingType);
       const admissionsMatch = filters.admissions.has(school.admissions as AdmissionsPolicy);
-      const ofstedMatch = filters.ofsted.has(school.ofsted as OfstedRating);
-      return typeMatch && phaseMatch && fundingMatch && admissionsMatch && ofstedMatch;
+      const statusMatch = filters.statuses.has(school.status);
+      const genderMatch = filters.genders.has(school.gender);
+      const sixthFormMatch = filters.sixthForms.has(school.sixthForm);
+      const religiousCharacterMatch = filters.religiousCharacters.has(school.religiousCharacter);
+      const senProvisionMatch = filters.senProvisions.has(school.senProvision);
+      const ofstedMatch = filters.ofsted.has(getOfstedRatingForArea(school, filters.ofstedArea));
+      const reportCardMatch = filters.reportCardGrades.has(
+        getReportCardGrade(school, filters.reportCardArea)
+      );
+      const ks2Match =
+        filters.minKs2Expected === 0 ||
+        (school.ks2?.expectedRwm != null && school.ks2.expectedRwm >= filters.minKs2Expected);
+      const progress8Match =
+        filters.minProgress8 === null ||
+        (school.ks4?.progress8 != null && school.ks4.progress8 >= filters.minProgress8);
+      const contextMatch = CONTEXT_METRICS.every(({ value: metric }) =>
+        matchesPercentRange(school[metric], filters.contextRanges[metric])
+      );
+      const capacityMatch = filters.capacity.has(getCapacityStatus(school));
+      const staleMatch =
+        filters.staleRatingMode !== "hide" || !isOfstedStale(school, filters.ofstedMaxAge);
+      return (
+        typeMatch &&
+        phaseMatch &&
+        laMatch &&
+        childAgeMatch &&
+        fundingMatch &&
+        admissionsMatch &&
+        statusMatch &&
+        genderMatch &&
+        sixthFormMatch &&
+        religiousCharacterMatch &&
+        senProvisionMatch &&
+        ofstedMatch &&
+        reportCardMatch &&
+        capacityMatch &&
+        ks2Match &&
+        progress8Match &&
+        contextMatch &&
+        staleMatch
+      );
     });
-  }, [schools, filters]);
+  }, [allSchools, filters, childAgeAtIntake]);
 
-  // Search results
+  // Schools whose rating is older than the chosen limit, drawn faded on the map
+  const fadedUrns = useMemo(() => {
+    const urns = new Set<string>();
+    if (filters.staleRatingMode !== "fade") return urns;
+    for (const school of filteredSchools) {
+      if (isOfstedStale(school, filters.ofstedMaxAge)) {
+        urns.add(school.urn);
+      }
+    }
+    return urns;
+  }, [filteredSchools, filters.ofstedMaxAge, filters.staleRatingMode]);
+
+  // Search results, leaving out schools the filters hide
   const searchResults = useMemo(() => {
-    if (searchQuery.length < 2) return [];
+    if (searchMode !== "schools" || searchQuery.length < 2) return [];
     const query = searchQuery.toLowerCase();
-    return filteredSchools
-      .filter(
-        (school) =>
-          school.name.toLowerCase().includes(query) ||
-          school.postcode.toLowerCase().includes(query)
-      )
-      .slice(0, 10);
-  }, [filteredSchools, searchQuery]);
+    const matches = filteredSchools.filter(
+      (school) =>
+        school.name.toLowerCase().includes(query) ||
+        school.postcode.toLowerCase().includes(query)
+    );
+    return sortSchools(matches, searchSort).slice(0, 10);
+  }, [filteredSchools, searchQuery, searchMode, searchSort]);
+
+  // Schools grouped by trust, across all schools rather than just the filtered set
+  const schoolsByTrust = useMemo(() => {
+    const trusts = new Map<string, SchoolSummary[]>();
+    for (const school of allSchools) {
+      if (!school.trustCode) continue;
+      const trustSchools = trusts.get(school.trustCode);
+      if (trustSchools) {
+        trustSchools.push(school);
+      } else {
+        trusts.set(school.trustCode, [school]);
+      }
+    }
+    return trusts;
+  }, [allSchools]);
+
+  const trustSearchResults = useMemo((): TrustSearchResult[] => {
+    if (searchMode !== "trusts" || searchQuery.length < 2) return [];
+    const query = searchQuery.toLowerCase();
+    const results: TrustSearchResult[] = [];
+    for (const [code, trustSchools] of schoolsByTrust) {
+      const name = trustSchools[0].trustName ?? code;
+      if (name.toLowerCase().includes(query)) {
+        results.push({ code, name, schoolCount: trustSchools.length });
+      }
+    }
+    return results.sort((a, b) => b.schoolCount - a.schoolCount).slice(0, 10);
+  }, [schoolsByTrust, searchQuery, searchMode]);
+
+  const selectedTrustSchools = useMemo(
+    () => (selectedTrustCode ? schoolsByTrust.get(selectedTrustCode) ?? [] : []),
+    [schoolsByTrust, selectedTrustCode]
+  );
+
+  // A selected trust's schools, and the school picked from search or the
+  // changelog, are always drawn, even those the filters hide
+  const mapSchools = useMemo(() => {
+    const pinned = new Set(selectedTrustSchools.map((school) => school.urn));
+    if (highlightedUrn) pinned.add(highlightedUrn);
+    if (pinned.size === 0) return filteredSchools;
+    const shown = new Set(filteredSchools.map((school) => school.urn));
+    const hidden = allSchools.filter((school) => pinned.has(school.urn) && !shown.has(school.urn));
+    return hidden.length > 0 ? [...filteredSchools, ...hidden] : filteredSchools;
+  }, [allSchools, filteredSchools, selectedTrustSchools, highlightedUrn]);
+
+  const highlightedUrns = useMemo(() => {
+    const urns = new Set(selectedTrustSchools.map((school) => school.urn));
+    if (highlightChanges && changelog) {
+      for (const change of changelog.changes) {
+        urns.add(change.urn);
+      }
+    }
+    if (highlightedUrn) {
+      urns.add(highlightedUrn);
+    }
+    return urns;
+  }, [selectedTrustSchools, highlightChanges, changelog, highlightedUrn]);
 
   const handleTypeFilter = useCallback((type: SchoolType, checked: boolean) => {
     setFilters((prev) => {
@@ -283,7 +1126,7 @@ export default function App() {
     });
   }, []);
 
-  const handlePhaseFilter = useCallback((phase: PhaseOfEducation, checked: boolean) => {
+  const handlePhaseFilter = useCallback((phase: PhaseFilter, checked: boolean) => {
     setFilters((prev) => {
       const newPhases = new Set(prev.phases);
       if (checked) {
@@ -295,6 +1138,14 @@ export default function App() {
     });
   }, []);
 
+  const handleLocalAuthorityFilter = useCallback((localAuthority: string | null) => {
+    setFilters((prev) => ({ ...prev, localAuthority }));
+  }, []);
+
+  const handleChildAgeChange = useCallback((changes: Partial<ChildAgeInput>) => {
+    setFilters((prev) => ({ ...prev, childAge: { ...prev.childAge, ...changes } }));
+  }, []);
+
   const handleFundingFilter = useCallback((funding: FundingType, checked: boolean) => {
     setFilters((prev) => {
       const newFunding = new Set(prev.funding);
@@ -319,6 +1170,69 @@ export default function App() {
     });
   }, []);
 
+  const handleStatusFilter = useCallback((status: SchoolStatus, checked: boolean) => {
+    setFilters((prev) => {
+      const newStatuses = new Set(prev.statuses);
+      if (checked) {
+        newStatuses.add(status);
+      } else {
+        newStatuses.delete(status);
+      }
+      return { ...prev, statuses: newStatuses };
+    });
+  }, []);
+
+  const handleGenderFilter = useCallback((gender: GenderIntake, checked: boolean) => {
+    setFilters((prev) => {
+      const newGenders = new Set(prev.genders);
+      if (checked) {
+        newGenders.add(gender);
+      } else {
+        newGenders.delete(gender);
+      }
+      return { ...prev, genders: newGenders };
+    });
+  }, []);
+
+  const handleSixthFormFilter = useCallback((sixthForm: SixthFormProvision, checked: boolean) => {
+    setFilters((prev) => {
+      const newSixthForms = new Set(prev.sixthForms);
+      if (checked) {
+        newSixthForms.add(sixthForm);
+      } else {
+        newSixthForms.delete(sixthForm);
+      }
+      return { ...prev, sixthForms: newSixthForms };
+    });
+  }, []);
+
+  const handleReligiousCharacterFilter = useCallback(
+    (character: ReligiousCharacter, checked: boolean) => {
+      setFilters((prev) => {
+        const newCharacters = new Set(prev.religiousCharacters);
+        if (checked) {
+          newCharacters.add(character);
+        } else {
+          newCharacters.delete(character);
+        }
+        return { ...prev, religiousCharacters: newCharacters };
+      });
+    },
+    []
+  );
+
+  const handleSenProvisionFilter = useCallback((provision: SenProvision, checked: boolean) => {
+    setFilters((prev) => {
+      const newProvisions = new Set(prev.senProvisions);
+      if (checked) {
+        newProvisions.add(provision);
+      } else {
+        newProvisions.delete(provision);
+      }
+      return { ...prev, senProvisions: newProvisions };
+    });
+  }, []);
+
   const handleOfstedFilter = useCallback(
     (rating: OfstedRating, checked: boolean) => {
       setFilters((prev) => {
@@ -334,14 +1248,104 @@ export default function App() {
     []
   );
 
-  const handleSearchSelect = useCallback((school: School) => {
+  const handleReportCardFilter = useCallback(
+    (grade: ReportCardGradeFilter, checked: boolean) => {
+      setFilters((prev) => {
+        const newGrades = new Set(prev.reportCardGrades);
+        if (checked) {
+          newGrades.add(grade);
+        } else {
+          newGrades.delete(grade);
+        }
+        return { ...prev, reportCardGrades: newGrades };
+      });
+    },
+    []
+  );
+
+  const handleReportCardArea = useCallback((area: ReportCardArea) => {
+    setFilters((prev) => ({ ...prev, reportCardArea: area }));
+  }, []);
+
+  const handleCapacityFilter = useCallback((status: CapacityStatus, checked: boolean) => {
+    setFilters((prev) => {
+      const newCapacity = new Set(prev.capacity);
+      if (checked) {
+        newCapacity.add(status);
+      } else {
+        newCapacity.delete(status);
+      }
+      return { ...prev, capacity: newCapacity };
+    });
+  }, []);
+
+  const handleOfstedArea = useCallback((area: OfstedArea | "overall") => {
+    setFilters((prev) => ({ ...prev, ofstedArea: area }));
+  }, []);
+
+  const handleOfstedMaxAge = useCallback((maxAge: number | null) => {
+    setFilters((prev) => ({ ...prev, ofstedMaxAge: maxAge }));
+  }, []);
+
+  const handleStaleRatingMode = useCallback((mode: StaleRatingMode) => {
+    setFilters((prev) => ({ ...prev, staleRatingMode: mode }));
+  }, []);
+
+  const handleMinKs2Expected = useCallback((minKs2Expected: number) => {
+    setFilters((prev) => ({ ...prev, minKs2Expected }));
+  }, []);
+
+  const handleMinProgress8 = useCallback((minProgress8: number | null) => {
+    setFilters((prev) => ({ ...prev, minProgress8 }));
+  }, []);
+
+  const handleContextRange = useCallback(
+    (metric: ContextMetric, changes: Partial<PercentRange>) => {
+      setFilters((prev) => ({
+        ...prev,
+        contextRanges: {
+          ...prev.contextRanges,
+          [metric]: { ...prev.contextRanges[metric], ...changes },
+        },
+      }));
+    },
+    []
+  );
+
+  const handleSearchSelect = useCallback((school: SchoolSummary) => {
     setHighlightedUrn(school.urn);
     setMapCenter([school.lat, school.lng]);
     setMapZoom(16);
     setSearchQuery("");
   }, []);
 
-  const handleMarkerClick = useCallback((school: School) => {
+  const handleTrustSelect = useCallback(
+    (trustCode: string) => {
+      const trustSchools = schoolsByTrust.get(trustCode) ?? [];
+      setSelectedTrustCode(trustCode);
+      setHighlightedUrn(null);
+      setMapBounds(L.latLngBounds(trustSchools.map((school) => [school.lat, school.lng])));
+      setSearchQuery("");
+    },
+    [schoolsByTrust]
+  );
+
+  const handleTrustClose = useCallback(() => {
+    setSelectedTrustCode(null);
+  }, []);
+
+  const handleChangeSelect = useCallback((change: SchoolChange) => {
+    setHighlightedUrn(change.urn);
+    setMapCenter([change.lat, change.lng]);
+    setMapZoom(16);
+  }, []);
+
+  const handleChangesClose = useCallback(() => {
+    setShowChanges(false);
+    setHighlightChanges(false);
+  }, []);
+
+  const handleMarkerClick = useCallback((school: SchoolSummary) => {
     setHighlightedUrn(school.urn);
   }, []);
 
@@ -366,19 +1370,38 @@ export default function App() {
         />
         <HeatMapLayer
           layerType={heatMapLayer}
-          geojsonData={geojsonData}
+          districtBoundaries={districtBoundaries}
           metrics={districtMetrics}
+          sectorGeojsonData={sectorGeojsonData}
+          sectorMetrics={sectorMetrics}
           onScaleChange={handleScaleChange}
+          onDetailChange={setBoundaryDetail}
         />
+        <LocalAuthorityLayer boundary={selectedLaBoundary} />
         <MarkerClusterGroup
-          schools={filteredSchools}
-          highlightedUrn={highlightedUrn}
+          schools={mapSchools}
+          getLoadedSchool={getLoadedSchool}
+          highlightedUrns={highlightedUrns}
+          fadedUrns={fadedUrns}
           onMarkerClick={handleMarkerClick}
         />
-        <MapController center={mapCenter} zoom={mapZoom} />
+        <MapController center={mapCenter} zoom={mapZoom} bounds={mapBounds} />
+        <ViewportTracker onChange={setViewport} />
       </MapContainer>
 
       <div className="control-panel">
+        {dataProblems.length > 0 && (
+          <div className="data-warning">
+            <ul>
+              {dataProblems.map((problem) => (
+                <li key={problem}>{problem}</li>
+              ))}
+            </ul>
+            Re-run <code>npm run setup</code> to rebuild the data, or{" "}
+            <code>npm run validate-data</code> for details.
+          </div>
+        )}
+
         {/* Layer Controls */}
         <LayerControls
           selectedLayer={heatMapLayer}
@@ -386,15 +1409,66 @@ export default function App() {
           dynamicScale={dynamicScale}
         />
 
+        {changelog && changelog.changes.length > 0 && !showChanges && (
+          <button className="panel-toggle" onClick={() => setShowChanges(true)}>
+            What changed ({changelog.changes.length.toLocaleString()})
+          </button>
+        )}
+
+        {changelog && showChanges && (
+          <ChangesPanel
+            changelog={changelog}
+            highlightOnMap={highlightChanges}
+            onHighlightChange={setHighlightChanges}
+            onSelect={handleChangeSelect}
+            onClose={handleChangesClose}
+          />
+        )}
+
         {/* Search */}
         <div className="search-container">
+          <div className="search-mode-toggle">
+            <button
+              className={searchMode === "schools" ? "active" : ""}
+              onClick={() => setSearchMode("schools")}
+            >
+              Schools
+            </button>
+            <button
+              className={searchMode === "trusts" ? "active" : ""}
+              onClick={() => setSearchMode("trusts")}
+            >
+              Trusts
+            </button>
+          </div>
           <input
             type="text"
             className="search-input"
-            placeholder="Search schools by name or postcode..."
+            placeholder={
+              searchMode === "schools"
+                ? "Search schools by name or postcode..."
+                : "Search multi-academy trusts by name..."
+            }
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
           />
+          {searchMode === "schools" && searchQuery.length >= 2 && (
+            <div className="search-sort">
+              <label>
+                Sort by{" "}
+                <select
+                  value={searchSort}
+                  onChange={(e) => setSearchSort(e.target.value as SchoolSortKey)}
+                >
+                  {SCHOOL_SORT_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          )}
           {searchResults.length > 0 && (
             <div className="search-results">
               {searchResults.map((school) => (
@@ -403,9 +1477,31 @@ export default function App() {
                   className="search-result-item"
                   onClick={() => handleSearchSelect(school)}
                 >
-                  <div className="search-result-name">{school.name}</div>
+                  <div className="search-result-name">
+                    {school.name}
+                    {isProposedToClose(school) && (
+                      <span className="closing-badge">Proposed to close</span>
+                    )}
+                  </div>
                   <div className="search-result-meta">
-                    {school.postcode} • {school.phase} • {school.funding}{school.admissions === "Selective" ? " (Grammar)" : ""} • {school.ofsted}
+                    <span className="gender-badge">{school.gender}</span>{" "}
+                    {school.postcode} • {school.phase} • {school.funding}{school.admissions === "Selective" ? " (Grammar)" : ""} • {school.ofsted}{school.fillPercent !== null ? ` • ${school.fillPercent}% full` : ""}{school.ks4?.progress8 != null ? ` • P8 ${formatProgress(school.ks4.progress8)}` : ""}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          {trustSearchResults.length > 0 && (
+            <div className="search-results">
+              {trustSearchResults.map((trust) => (
+                <div
+                  key={trust.code}
+                  className="search-result-item"
+                  onClick={() => handleTrustSelect(trust.code)}
+                >
+                  <div className="search-result-name">{trust.name}</div>
+                  <div className="search-result-meta">
+                    {trust.schoolCount} {trust.schoolCount === 1 ? "school" : "schools"}
                   </div>
                 </div>
               ))}
@@ -413,12 +1509,21 @@ export default function App() {
           )}
         </div>
 
+        {selectedTrustSchools.length > 0 && (
+          <TrustPanel
+            trustName={selectedTrustSchools[0].trustName ?? selectedTrustCode ?? ""}
+            schools={selectedTrustSchools}
+            onSchoolSelect={handleSearchSelect}
+            onClose={handleTrustClose}
+          />
+        )}
+
         {/* Filters */}
         <div className="filter-panel">
           <div className="filter-section">
             <div className="filter-section-title">Phase</div>
             <div className="filter-options">
-              {PHASES.map((phase) => (
+              {PHASE_FILTERS.map((phase) => (
                 <label key={phase} className="filter-option">
                   <input
                     type="checkbox"
@@ -431,6 +1536,76 @@ export default function App() {
             </div>
           </div>
 
+          <div className="filter-section">
+            <div className="filter-section-title">Local Authority</div>
+            <div className="filter-options">
+              <select
+                className="filter-select"
+                value={filters.localAuthority ?? ""}
+                onChange={(e) => handleLocalAuthorityFilter(e.target.value || null)}
+              >
+                <option value="">All local authorities</option>
+                {localAuthorities.map((la) => (
+                  <option key={la} value={la}>
+                    {la}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="filter-section">
+            <div className="filter-section-title">Child's Age</div>
+            <div className="filter-options">
+              <select
+                className="filter-select"
+                value={filters.childAge.mode}
+                onChange={(e) => handleChildAgeChange({ mode: e.target.value as ChildAgeMode })}
+              >
+                <option value="date-of-birth">Date of birth</option>
+                <option value="age">Current age</option>
+              </select>
+              {filters.childAge.mode === "date-of-birth" ? (
+                <input
+                  type="date"
+                  className="filter-input"
+                  value={filters.childAge.dateOfBirth}
+                  onChange={(e) => handleChildAgeChange({ dateOfBirth: e.target.value })}
+                />
+              ) : (
+                <input
+                  type="number"
+                  min={0}
+                  max={19}
+                  className="filter-input"
+                  placeholder="Age in years"
+                  value={filters.childAge.currentAge}
+                  onChange={(e) => handleChildAgeChange({ currentAge: e.target.value })}
+                />
+              )}
+              <select
+                className="filter-select"
+                value={filters.childAge.intakeYear}
+                onChange={(e) => handleChildAgeChange({ intakeYear: Number(e.target.value) })}
+              >
+                {[0, 1, 2, 3, 4].map((offset) => {
+                  const year = getNextIntakeYear() + offset;
+                  return (
+                    <option key={year} value={year}>
+                      Starting September {year}
+                    </option>
+                  );
+                })}
+              </select>
+              {childAgeAtIntake !== null && (
+                <div className="filter-hint">
+                  Age {childAgeAtIntake} on 31 August {filters.childAge.intakeYear} (
+                  {formatYearGroup(childAgeAtIntake)})
+                </div>
+              )}
+            </div>
+          </div>
+
           <div className="filter-section">
             <div className="filter-section-title">Funding</div>
             <div className="filter-options">
@@ -463,6 +1638,148 @@ export default function App() {
             </div>
           </div>
 
+          <div className="filter-section">
+            <div className="filter-section-title">Status</div>
+            <div className="filter-options">
+              {SCHOOL_STATUSES.map((status) => (
+                <label key={status} className="filter-option">
+                  <input
+                    type="checkbox"
+                    checked={filters.statuses.has(status)}
+                    onChange={(e) => handleStatusFilter(status, e.target.checked)}
+                  />
+                  {status === "Open" ? "Open" : "Proposed to close"}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="filter-section">
+            <div className="filter-section-title">Gender</div>
+            <div className="filter-options">
+              {GENDER_INTAKES.map((gender) => (
+                <label key={gender} className="filter-option">
+                  <input
+                    type="checkbox"
+                    checked={filters.genders.has(gender)}
+                    onChange={(e) => handleGenderFilter(gender, e.target.checked)}
+                  />
+                  {gender}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="filter-section">
+            <div className="filter-section-title">Sixth Form</div>
+            <div className="filter-options">
+              {SIXTH_FORM_PROVISIONS.map((sixthForm) => (
+                <label key={sixthForm} className="filter-option">
+                  <input
+                    type="checkbox"
+                    checked={filters.sixthForms.has(sixthForm)}
+                    onChange={(e) => handleSixthFormFilter(sixthForm, e.target.checked)}
+                  />
+                  {sixthForm}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="filter-section">
+            <div className="filter-section-title">Capacity</div>
+            <div className="filter-options">
+              {CAPACITY_STATUSES.map((status) => (
+                <label key={status} className="filter-option">
+                  <input
+                    type="checkbox"
+                    checked={filters.capacity.has(status)}
+                    onChange={(e) => handleCapacityFilter(status, e.target.checked)}
+                  />
+                  {status === "Unknown" ? "No capacity data" : status}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="filter-section">
+            <div className="filter-section-title">KS2 Results</div>
+            <div className="filter-options">
+              <label className="filter-option">
+                <input
+                  type="range"
+                  className="filter-range"
+                  min={0}
+                  max={100}
+                  step={5}
+                  value={filters.minKs2Expected}
+                  onChange={(e) => handleMinKs2Expected(Number(e.target.value))}
+                />
+                {filters.minKs2Expected === 0 ? "Any" : `${filters.minKs2Expected}%+`}
+              </label>
+              <div className="filter-hint">
+                Minimum % meeting the expected standard in reading, writing and maths.
+                {filters.minKs2Expected > 0 && " Schools without KS2 results are hidden."}
+              </div>
+            </div>
+          </div>
+
+          <div className="filter-section">
+            <div className="filter-section-title">KS4 Results</div>
+            <div className="filter-options">
+              <select
+                className="filter-select"
+                value={filters.minProgress8 ?? ""}
+                onChange={(e) =>
+                  handleMinProgress8(e.target.value === "" ? null : Number(e.target.value))
+                }
+              >
+                <option value="">Any Progress 8</option>
+                {PROGRESS8_THRESHOLDS.map((threshold) => (
+                  <option key={threshold} value={threshold}>
+                    Progress 8 of {formatProgress(threshold)} or above
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="filter-section">
+            <div className="filter-section-title">Pupil Context (%)</div>
+            <div className="filter-options">
+              {CONTEXT_METRICS.map((metric) => (
+                <div key={metric.value} className="filter-range-row">
+                  <span className="filter-range-label">{metric.label}</span>
+                  <input
+                    type="number"
+                    className="filter-input filter-input-small"
+                    min={0}
+                    max={100}
+                    value={filters.contextRanges[metric.value].min}
+                    onChange={(e) =>
+                      handleContextRange(metric.value, {
+                        min: e.target.value === "" ? FULL_PERCENT_RANGE.min : Number(e.target.value),
+                      })
+                    }
+                  />
+                  <span>–</span>
+                  <input
+                    type="number"
+                    className="filter-input filter-input-small"
+                    min={0}
+                    max={100}
+                    value={filters.contextRanges[metric.value].max}
+                    onChange={(e) =>
+                      handleContextRange(metric.value, {
+                        max: e.target.value === "" ? FULL_PERCENT_RANGE.max : Number(e.target.value),
+                      })
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
           <div className="filter-section">
             <div className="filter-section-title">School Type</div>
             <div className="filter-options">
@@ -479,9 +1796,55 @@ export default function App() {
             </div>
           </div>
 
+          <div className="filter-section">
+            <div className="filter-section-title">SEN Provision</div>
+            <div className="filter-options">
+              {SEN_PROVISIONS.map((provision) => (
+                <label key={provision} className="filter-option">
+                  <input
+                    type="checkbox"
+                    checked={filters.senProvisions.has(provision)}
+                    onChange={(e) => handleSenProvisionFilter(provision, e.target.checked)}
+                  />
+                  {provision === "None" ? "No specialist provision" : provision}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="filter-section">
+            <div className="filter-section-title">Religious Character</div>
+            <div className="filter-options">
+              {RELIGIOUS_CHARACTERS.map((character) => (
+                <label key={character} className="filter-option">
+                  <input
+                    type="checkbox"
+                    checked={filters.religiousCharacters.has(character)}
+                    onChange={(e) =>
+                      handleReligiousCharacterFilter(character, e.target.checked)
+                    }
+                  />
+                  {character === "None" ? "No religious character" : character}
+                </label>
+              ))}
+            </div>
+          </div>
+
           <div className="filter-section">
             <div className="filter-section-title">Ofsted Rating</div>
             <div className="filter-options">
+              <select
+                className="filter-select"
+                value={filters.ofstedArea}
+                onChange={(e) => handleOfstedArea(e.target.value as OfstedArea | "overall")}
+              >
+                <option value="overall">Overall effectiveness</option>
+                {OFSTED_AREAS.map((area) => (
+                  <option key={area.value} value={area.value}>
+                    {area.label}
+                  </option>
+                ))}
+              </select>
               {OFSTED_RATINGS.map((rating) => (
                 <label key={rating} className="filter-option">
                   <input
@@ -497,9 +1860,78 @@ export default function App() {
             </div>
           </div>
 
+          <div className="filter-section">
+            <div className="filter-section-title">Ofsted Report Card</div>
+            <div className="filter-options">
+              <select
+                className="filter-select"
+                value={filters.reportCardArea}
+                onChange={(e) => handleReportCardArea(e.target.value as ReportCardArea)}
+              >
+                {REPORT_CARD_AREAS.map((area) => (
+                  <option key={area.value} value={area.value}>
+                    {area.label}
+                  </option>
+                ))}
+              </select>
+              {REPORT_CARD_GRADE_FILTERS.map((grade) => (
+                <label key={grade} className="filter-option">
+                  <input
+                    type="checkbox"
+                    checked={filters.reportCardGrades.has(grade)}
+                    onChange={(e) => handleReportCardFilter(grade, e.target.checked)}
+                  />
+                  {grade === "Not graded" ? "No report card grade" : grade}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="filter-section">
+            <div className="filter-section-title">Ofsted Rating Age</div>
+            <div className="filter-options">
+              <select
+                className="filter-select"
+                value={filters.ofstedMaxAge ?? ""}
+                onChange={(e) =>
+                  handleOfstedMaxAge(e.target.value === "" ? null : Number(e.target.value))
+                }
+              >
+                <option value="">Any inspection date</option>
+                {OFSTED_AGE_LIMITS.map((years) => (
+                  <option key={years} value={years}>
+                    Older than {years} years
+                  </option>
+                ))}
+              </select>
+              {filters.ofstedMaxAge !== null && (
+                <>
+                  <label className="filter-option">
+                    <input
+                      type="radio"
+                      name="stale-rating-mode"
+                      checked={filters.staleRatingMode === "fade"}
+                      onChange={() => handleStaleRatingMode("fade")}
+                    />
+                    Fade these schools
+                  </label>
+                  <label className="filter-option">
+                    <input
+                      type="radio"
+                      name="stale-rating-mode"
+                      checked={filters.staleRatingMode === "hide"}
+                      onChange={() => handleStaleRatingMode("hide")}
+                    />
+                    Hide these schools
+                  </label>
+                </>
+              )}
+            </div>
+          </div>
+
           <div className="school-count">
             Showing <strong>{filteredSchools.length.toLocaleString()}</strong>{" "}
-            of <strong>{schools.length.toLocaleString()}</strong> schools
+            of <strong>{allSchools.length.toLocaleString()}</strong> schools
           </div>
         </div>
       </div>
@@ -0,0 +1,112 @@
+import { memo, useMemo, useState } from "react";
+import { SchoolChangeKind, SCHOOL_CHANGE_KINDS } from "../types";
+import { SchoolChange, SchoolChangelog } from "../contract";
+
+interface ChangesPanelProps {
+  changelog: SchoolChangelog;
+  highlightOnMap: boolean;
+  onHighlightChange: (highlight: boolean) => void;
+  onSelect: (change: SchoolChange) => void;
+  onClose: () => void;
+}
+
+// Long lists are slow to render and not much use beyond this
+const MAX_LISTED_CHANGES = 200;
+
+function ChangesPanelComponent({
+  changelog,
+  highlightOnMap,
+  onHighlightChange,
+  onSelect,
+  onClose,
+}: ChangesPanelProps) {
+  const [kind, setKind] = useState<SchoolChangeKind | "all">("all");
+
+  const counts = useMemo(() => {
+    const byKind = new Map<SchoolChangeKind, number>();
+    for (const change of changelog.changes) {
+      byKind.set(change.kind, (byKind.get(change.kind) || 0) + 1);
+    }
+    return byKind;
+  }, [changelog]);
+
+  const visibleChanges = useMemo(
+    () =>
+      kind === "all"
+        ? changelog.changes
+        : changelog.changes.filter((change) => change.kind === kind),
+    [changelog, kind]
+  );
+
+  const labels = useMemo(
+    () => new Map(SCHOOL_CHANGE_KINDS.map((option) => [option.value, option.label])),
+    []
+  );
+
+  return (
+    <div className="changes-panel">
+      <div className="trust-panel-header">
+        <div className="trust-panel-title">What changed</div>
+        <button className="panel-close" onClick={onClose} aria-label="Close changes">
+          ×
+        </button>
+      </div>
+
+      {!changelog.hasPreviousSnapshot ? (
+        <div className="filter-hint">
+          No previous snapshot yet. Changes will show after the next data refresh.
+        </div>
+      ) : (
+        <>
+          <div className="changes-controls">
+            <select
+              className="filter-select"
+              value={kind}
+              onChange={(e) => setKind(e.target.value as SchoolChangeKind | "all")}
+            >
+              <option value="all">All changes ({changelog.changes.length})</option>
+              {SCHOOL_CHANGE_KINDS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label} ({counts.get(option.value) || 0})
+                </option>
+              ))}
+            </select>
+            <label className="filter-option">
+              <input
+                type="checkbox"
+                checked={highlightOnMap}
+                onChange={(e) => onHighlightChange(e.target.checked)}
+              />
+              Highlight on map
+            </label>
+          </div>
+
+          <div className="changes-list">
+            {visibleChanges.slice(0, MAX_LISTED_CHANGES).map((change) => (
+              <div
+                key={`${change.urn}-${change.kind}`}
+                className="search-result-item"
+                onClick={() => onSelect(change)}
+              >
+                <div className="search-result-name">{change.name}</div>
+                <div className="search-result-meta">
+                  <span className={`change-badge change-${change.kind}`}>
+                    {labels.get(change.kind)}
+                  </span>{" "}
+                  {change.detail}
+                </div>
+              </div>
+            ))}
+            {visibleChanges.length > MAX_LISTED_CHANGES && (
+              <div className="filter-hint">
+                Showing the first {MAX_LISTED_CHANGES} of {visibleChanges.length}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export const ChangesPanel = memo(ChangesPanelComponent);
@@ -1,41 +1,85 @@
-import { useEffect, useRef, useCallback, memo } from "react";
+import { useEffect, useRef, useCallback, useMemo, useState, memo } from "react";
 import { useMap } from "react-leaflet";
 import L from "leaflet";
 import {
   HeatMapLayerType,
-  DistrictMetricsMap,
   ColorScaleConfig,
   HOUSE_PRICE_SCALE,
   COMMUTE_TIME_SCALE,
+  BoundaryDetail,
+  BOUNDARY_DETAILS,
+  SECTOR_MIN_ZOOM,
 } from "../types";
+import { DistrictMetricsMap } from "../contract";
 import { getColorForValue, calculateDynamicScale } from "../utils/colorScales";
 
+function detailForZoom(zoom: number): BoundaryDetail {
+  return (BOUNDARY_DETAILS.find((detail) => zoom <= detail.maxZoom) ?? BOUNDARY_DETAILS[0]).value;
+}
+
+/**
+ * The loaded district boundaries closest to the wanted level of detail, so
+ * the map keeps showing the previous level while the new one loads.
+ */
+function closestLoadedDetail(
+  boundaries: Partial<Record<BoundaryDetail, GeoJSON.FeatureCollection>>,
+  wanted: BoundaryDetail
+): GeoJSON.FeatureCollection | null {
+  const wantedIndex = BOUNDARY_DETAILS.findIndex((detail) => detail.value === wanted);
+  const loaded = BOUNDARY_DETAILS.map((detail, index) => ({
+    data: boundaries[detail.value],
+    distance: Math.abs(index - wantedIndex),
+  }))
+    .filter((level) => level.data)
+    .sort((a, b) => a.distance - b.distance);
+  return loaded[0]?.data ?? null;
+}
+
 interface HeatMapLayerProps {
   layerType: HeatMapLayerType;
-  geojsonData: GeoJSON.FeatureCollection | null;
+  districtBoundaries: Partial<Record<BoundaryDetail, GeoJSON.FeatureCollection>>;
   metrics: DistrictMetricsMap;
+  sectorGeojsonData: GeoJSON.FeatureCollection | null;
+  sectorMetrics: DistrictMetricsMap;
   onScaleChange?: (scale: ColorScaleConfig | null) => void;
+  // Called with the level of detail the current zoom needs, so it can be loaded
+  onDetailChange?: (detail: BoundaryDetail) => void;
 }
 
 function HeatMapLayerComponent({
   layerType,
-  geojsonData,
+  districtBoundaries,
   metrics,
+  sectorGeojsonData,
+  sectorMetrics,
   onScaleChange,
+  onDetailChange,
 }: HeatMapLayerProps) {
   const map = useMap();
   const layerRef = useRef<L.GeoJSON | null>(null);
   const paneRef = useRef<HTMLElement | null>(null);
   const currentScaleRef = useRef<ColorScaleConfig | null>(null);
+  const [zoom, setZoom] = useState(() => map.getZoom());
+  const detail = detailForZoom(zoom);
+
+  // Show sectors when zoomed in, if any sector boundaries were processed
+  const showSectors = zoom >= SECTOR_MIN_ZOOM && (sectorGeojsonData?.features.length ?? 0) > 0;
+  const districtData = useMemo(
+    () => closestLoadedDetail(districtBoundaries, detail),
+    [districtBoundaries, detail]
+  );
+  const areaData = showSectors ? sectorGeojsonData : districtData;
+  const areaMetrics = showSectors ? sectorMetrics : metrics;
+  const areaProperty = showSectors ? "sector" : "district";
 
   // Get the base scale for the current layer type
   const getBaseScale = useCallback(() => {
     return layerType === "house-prices" ? HOUSE_PRICE_SCALE : COMMUTE_TIME_SCALE;
   }, [layerType]);
 
-  // Calculate visible districts and update scale
+  // Calculate visible areas and update scale
   const updateDynamicScale = useCallback(() => {
-    if (!map || !geojsonData || layerType === "none") {
+    if (!map || !areaData || layerType === "none") {
       if (currentScaleRef.current !== null) {
         currentScaleRef.current = null;
         onScaleChange?.(null);
@@ -44,25 +88,25 @@ function HeatMapLayerComponent({
     }
 
     const bounds = map.getBounds();
-    const visibleDistricts: string[] = [];
+    const visibleAreas: string[] = [];
 
-    // Find districts that intersect with viewport
-    geojsonData.features.forEach((feature) => {
-      if (!feature.properties?.district) return;
+    // Find areas that intersect with viewport
+    areaData.features.forEach((feature) => {
+      if (!feature.properties?.[areaProperty]) return;
 
       // Get feature bounds
       const featureBounds = L.geoJSON(feature).getBounds();
 
       // Check if feature intersects with viewport
       if (bounds.intersects(featureBounds)) {
-        visibleDistricts.push(feature.properties.district);
+        visibleAreas.push(feature.properties[areaProperty]);
       }
     });
 
     const baseScale = getBaseScale();
     const dynamicScale = calculateDynamicScale(
-      visibleDistricts,
-      metrics,
+      visibleAreas,
+      areaMetrics,
       layerType,
       baseScale
     );
@@ -89,15 +133,15 @@ function HeatMapLayerComponent({
             };
           }
 
-          const district = feature.properties.district as string;
-          const districtMetrics = metrics[district];
+          const area = feature.properties[areaProperty] as string;
+          const areaValues = areaMetrics[area];
 
           let value: number | null = null;
-          if (districtMetrics) {
+          if (areaValues) {
             value =
               layerType === "house-prices"
-                ? districtMetrics.medianPrice
-                : districtMetrics.commuteMinutes;
+                ? areaValues.medianPrice
+                : areaValues.commuteMinutes;
           }
 
           const fillColor = getColorForValue(value, dynamicScale);
@@ -114,7 +158,7 @@ function HeatMapLayerComponent({
     }
 
     return dynamicScale;
-  }, [map, geojsonData, metrics, layerType, getBaseScale, onScaleChange]);
+  }, [map, areaData, areaMetrics, areaProperty, layerType, getBaseScale, onScaleChange]);
 
   // Set up pane
   useEffect(() => {
@@ -148,6 +192,25 @@ function HeatMapLayerComponent({
     };
   }, [map, updateDynamicScale]);
 
+  // Track the zoom, to pick districts or sectors and the level of detail
+  useEffect(() => {
+    if (!map) return;
+
+    const handleZoomEnd = () => {
+      setZoom(map.getZoom());
+    };
+
+    map.on("zoomend", handleZoomEnd);
+
+    return () => {
+      map.off("zoomend", handleZoomEnd);
+    };
+  }, [map]);
+
+  useEffect(() => {
+    onDetailChange?.(detail);
+  }, [detail, onDetailChange]);
+
   // Create/update the GeoJSON layer
   useEffect(() => {
     if (!map) return;
@@ -159,7 +222,7 @@ function HeatMapLayerComponent({
     }
 
     // Clear scale when no layer selected
-    if (layerType === "none" || !geojsonData) {
+    if (layerType === "none" || !areaData) {
       currentScaleRef.current = null;
       onScaleChange?.(null);
       return;
@@ -167,20 +230,20 @@ function HeatMapLayerComponent({
 
     // Calculate initial scale based on visible area
     const bounds = map.getBounds();
-    const visibleDistricts: string[] = [];
+    const visibleAreas: string[] = [];
 
-    geojsonData.features.forEach((feature) => {
-      if (!feature.properties?.district) return;
+    areaData.features.forEach((feature) => {
+      if (!feature.properties?.[areaProperty]) return;
       const featureBounds = L.geoJSON(feature).getBounds();
       if (bounds.intersects(featureBounds)) {
-        visibleDistricts.push(feature.properties.district);
+        visibleAreas.push(feature.properties[areaProperty]);
       }
     });
 
     const baseScale = getBaseScale();
     const scale = calculateDynamicScale(
-      visibleDistricts,
-      metrics,
+      visibleAreas,
+      areaMetrics,
       layerType,
       baseScale
     );
@@ -200,15 +263,15 @@ function HeatMapLayerComponent({
         };
       }
 
-      const district = feature.properties.district as string;
-      const districtMetrics = metrics[district];
+      const area = feature.properties[areaProperty] as string;
+      const areaValues = areaMetrics[area];
 
       let value: number | null = null;
-      if (districtMetrics) {
+      if (areaValues) {
         value =
           layerType === "house-prices"
-            ? districtMetrics.medianPrice
-            : districtMetrics.commuteMinutes;
+            ? areaValues.medianPrice
+            : areaValues.commuteMinutes;
       }
 
       const fillColor = getColorForValue(value, scale);
@@ -223,32 +286,32 @@ function HeatMapLayerComponent({
     };
 
     // Create GeoJSON layer
-    const layer = L.geoJSON(geojsonData, {
+    const layer = L.geoJSON(areaData, {
       style,
       pane: "choropleth",
       onEachFeature: (feature, layer) => {
         if (feature.properties) {
-          const district = feature.properties.district as string;
-          const districtMetrics = metrics[district];
+          const area = feature.properties[areaProperty] as string;
+          const areaValues = areaMetrics[area];
 
-          let tooltipContent = `<strong>${district}</strong>`;
+          let tooltipContent = `<strong>${area}</strong>`;
 
-          if (districtMetrics) {
+          if (areaValues) {
             if (
               layerType === "house-prices" &&
-              districtMetrics.medianPrice !== null
+              areaValues.medianPrice !== null
             ) {
-              tooltipContent += `<br>Median: £${districtMetrics.medianPrice.toLocaleString()}`;
+              tooltipContent += `<br>Median: £${areaValues.medianPrice.toLocaleString()}`;
             } else if (
               layerType === "commute-time" &&
-              districtMetrics.commuteMinutes !== null
+              areaValues.commuteMinutes !== null
             ) {
-              const hours = Math.floor(districtMetrics.commuteMinutes / 60);
-              const mins = districtMetrics.commuteMinutes % 60;
+              const hours = Math.floor(areaValues.commuteMinutes / 60);
+              const mins = areaValues.commuteMinutes % 60;
               const timeStr =
                 hours > 0
                   ? `${hours}h ${mins}m`
-                  : `${districtMetrics.commuteMinutes}m`;
+                  : `${areaValues.commuteMinutes}m`;
               tooltipContent += `<br>Commute: ${timeStr}`;
             }
           } else {
@@ -272,7 +335,7 @@ function HeatMapLayerComponent({
         layerRef.current = null;
       }
     };
-  }, [map, layerType, geojsonData, metrics, getBaseScale, onScaleChange]);
+  }, [map, layerType, areaData, areaMetrics, areaProperty, getBaseScale, onScaleChange]);
 
   return null;
 }
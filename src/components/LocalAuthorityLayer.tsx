@@ -0,0 +1,38 @@
+import { useEffect, memo } from "react";
+import { useMap } from "react-leaflet";
+import L from "leaflet";
+
+interface LocalAuthorityLayerProps {
+  boundary: GeoJSON.Feature | null;
+}
+
+function LocalAuthorityLayerComponent({ boundary }: LocalAuthorityLayerProps) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (!map || !boundary) return;
+
+    // Outline only, so schools and any heat map underneath stay visible
+    const layer = L.geoJSON(boundary, {
+      style: {
+        color: "#1565c0",
+        weight: 2.5,
+        opacity: 0.9,
+        fill: false,
+        dashArray: "6 4",
+      },
+      interactive: false,
+    });
+
+    layer.addTo(map);
+    map.flyToBounds(layer.getBounds(), { duration: 1, padding: [20, 20] });
+
+    return () => {
+      map.removeLayer(layer);
+    };
+  }, [map, boundary]);
+
+  return null;
+}
+
+export const LocalAuthorityLayer = memo(LocalAuthorityLayerComponent);
@@ -0,0 +1,105 @@
+import { memo, useMemo, useState } from "react";
+import { OFSTED_RATINGS, SCHOOL_SORT_OPTIONS, SchoolSortKey } from "../types";
+import { SchoolSummary } from "../contract";
+import { getOfstedClass } from "../utils/ofsted";
+import { formatSortValue, sortSchools } from "../utils/schoolSort";
+
+interface TrustPanelProps {
+  trustName: string;
+  schools: SchoolSummary[];
+  onSchoolSelect: (school: SchoolSummary) => void;
+  onClose: () => void;
+}
+
+function TrustPanelComponent({ trustName, schools, onSchoolSelect, onClose }: TrustPanelProps) {
+  const [sortKey, setSortKey] = useState<SchoolSortKey>("relevance");
+
+  // Count schools per Ofsted rating, keeping the usual rating order
+  const ofstedCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const school of schools) {
+      counts.set(school.ofsted, (counts.get(school.ofsted) || 0) + 1);
+    }
+    return OFSTED_RATINGS.map((rating) => ({
+      rating,
+      count: counts.get(rating) || 0,
+    })).filter((entry) => entry.count > 0);
+  }, [schools]);
+
+  const phaseCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const school of schools) {
+      counts.set(school.phase, (counts.get(school.phase) || 0) + 1);
+    }
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  }, [schools]);
+
+  // Alphabetical, unless ranked by a results figure
+  const rankedSchools = useMemo(
+    () => sortSchools([...schools].sort((a, b) => a.name.localeCompare(b.name)), sortKey),
+    [schools, sortKey]
+  );
+
+  return (
+    <div className="trust-panel">
+      <div className="trust-panel-header">
+        <div className="trust-panel-title">{trustName}</div>
+        <button className="panel-close" onClick={onClose} aria-label="Close trust summary">
+          ×
+        </button>
+      </div>
+      <div className="trust-panel-count">
+        <strong>{schools.length}</strong> {schools.length === 1 ? "school" : "schools"}
+        {phaseCounts.length > 0 && (
+          <span className="trust-panel-phases">
+            {" "}
+            ({phaseCounts.map(([phase, count]) => `${count} ${phase}`).join(", ")})
+          </span>
+        )}
+      </div>
+      <div className="trust-ofsted-distribution">
+        {ofstedCounts.map(({ rating, count }) => (
+          <div key={rating} className="trust-ofsted-row">
+            <span className={`ofsted-badge ${getOfstedClass(rating)}`}>{rating}</span>
+            <div className="trust-ofsted-bar">
+              <div
+                className={`trust-ofsted-bar-fill ${getOfstedClass(rating)}`}
+                style={{ width: `${(count / schools.length) * 100}%` }}
+              />
+            </div>
+            <span className="trust-ofsted-count">{count}</span>
+          </div>
+        ))}
+      </div>
+      <div className="search-sort trust-panel-sort">
+        <label>
+          Sort by{" "}
+          <select value={sortKey} onChange={(e) => setSortKey(e.target.value as SchoolSortKey)}>
+            {SCHOOL_SORT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.value === "relevance" ? "Name" : option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div className="trust-school-list">
+        {rankedSchools.map((school) => (
+          <div
+            key={school.urn}
+            className="search-result-item"
+            onClick={() => onSchoolSelect(school)}
+          >
+            <div className="search-result-name">{school.name}</div>
+            <div className="search-result-meta">
+              {school.phase} • {school.ofsted}
+              {sortKey !== "relevance" && ` • ${formatSortValue(school, sortKey)}`}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export const TrustPanel = memo(TrustPanelComponent);
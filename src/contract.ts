@@ -0,0 +1,329 @@
+/**
+ * The data contract between the pipeline scripts and the app.
+ *
+ * Every generated file in src/data has its shape declared here, once, and is
+ * written with a format version. Bump an artifact's version whenever its
+ * shape changes: the app checks the version when it loads a file, so a file
+ * left over from an older pipeline run is reported instead of misread.
+ */
+
+import {
+  SchoolType,
+  PhaseOfEducation,
+  FundingType,
+  AdmissionsPolicy,
+  GenderIntake,
+  SixthFormProvision,
+  ReligiousCharacter,
+  SchoolStatus,
+  OfstedRating,
+  OfstedAreaJudgements,
+  ReportCardGrades,
+  SafeguardingJudgement,
+  SenProvision,
+  SchoolChangeKind,
+  LocationPrecision,
+  BoundaryDetail,
+} from "./types";
+
+// Current format version of each generated file
+export const ARTIFACT_VERSIONS = {
+  "schools.json": 7,
+  "changes.json": 1,
+  "postcode-districts.json": 2,
+  "postcode-districts-low.json": 1,
+  "postcode-districts-high.json": 1,
+  "postcode-sectors.json": 2,
+  "la-boundaries.json": 1,
+  "district-metrics.json": 2,
+  "tiles.json": 7,
+};
+
+export type ArtifactName = keyof typeof ARTIFACT_VERSIONS;
+
+export interface ArtifactHeader {
+  version: number;
+  generatedAt: string; // ISO timestamp
+}
+
+export interface School {
+  urn: string;
+  name: string;
+  type: SchoolType;
+  phase: PhaseOfEducation;
+  lowAge: number | null;
+  highAge: number | null;
+  funding: FundingType;
+  academy: boolean; // Run by an academy trust: an academy or free school, whatever its type
+  admissions: AdmissionsPolicy;
+  gender: GenderIntake;
+  sixthForm: SixthFormProvision;
+  religiousCharacter: ReligiousCharacter;
+  religiousEthos: string | null;
+  laName: string;
+  laCode: string; // DfE LA number, e.g. "201"
+  laGssCode: string | null; // ONS code of the authority, e.g. "E09000001"
+  trustName: string | null;
+  trustCode: string | null;
+  status: SchoolStatus;
+  closeDate: string | null; // ISO date (YYYY-MM-DD) the school is due to close
+  closeReason: string | null;
+  lat: number;
+  lng: number;
+  locationPrecision: LocationPrecision;
+  address: string;
+  postcode: string;
+  ofsted: OfstedRating;
+  ofstedDate: string | null; // ISO date (YYYY-MM-DD) of the latest inspection
+  ofstedPrevious: OfstedRating;
+  ofstedInspectionType: string | null;
+  ofstedAreas: OfstedAreaJudgements;
+  ofstedReportCard: OfstedReportCard | null; // Null unless the latest inspection gave a report card
+  pupils: number | null;
+  capacity: number | null;
+  fillPercent: number | null;
+  fsmPercent: number | null; // % of pupils eligible for free school meals
+  ealPercent: number | null; // % of pupils with English as an additional language
+  senPercent: number | null; // % of pupils with SEN support or an EHC plan
+  senProvision: SenProvision;
+  senPlaces: number | null; // Resourced provision and SEN unit places
+  senOnRoll: number | null; // Pupils on roll in those places
+  senNeeds: string[]; // Types of need catered for, as named in GIAS
+  ks2: Ks2Results | null;
+  ks4: Ks4Results | null;
+  post16: Post16Results | null;
+  district: string | null; // Postcode district boundary the school's location falls in
+  districtMetrics: DistrictMetrics | null; // That district's metrics, from district-metrics.json
+}
+
+// A report card from the renewed inspection framework: a grade for each area
+// and a safeguarding judgement, with no overall grade
+export interface OfstedReportCard {
+  grades: ReportCardGrades;
+  safeguarding: SafeguardingJudgement | null;
+}
+
+// Key Stage 2 results from the DfE performance tables (primary schools only)
+export interface Ks2Results {
+  expectedRwm: number | null; // % meeting the expected standard in reading, writing and maths
+  higherRwm: number | null; // % achieving the higher standard
+  readingProgress: number | null;
+  writingProgress: number | null;
+  mathsProgress: number | null;
+}
+
+// Key Stage 4 results from the DfE performance tables (secondary schools only)
+export interface Ks4Results {
+  progress8: number | null;
+  attainment8: number | null;
+  ebaccEntry: number | null; // % of pupils entering the EBacc
+  grade5EnglishMaths: number | null; // % achieving grade 5 or above in English and maths
+}
+
+// 16-18 (A level) results from the DfE performance tables
+export interface Post16Results {
+  aLevelPointScore: number | null; // Average point score per A level entry
+  aLevelGrade: string | null; // Average A level grade, e.g. "B-"
+}
+
+// schools.json (and the smaller schools-sample.json)
+export interface SchoolsArtifact extends ArtifactHeader {
+  schools: School[];
+}
+
+export interface SchoolChange {
+  urn: string;
+  name: string;
+  kind: SchoolChangeKind;
+  detail: string;
+  lat: number;
+  lng: number;
+}
+
+// changes.json, written by diff-snapshots
+export interface SchoolChangelog extends ArtifactHeader {
+  hasPreviousSnapshot: boolean;
+  changes: SchoolChange[];
+}
+
+export interface DistrictMetrics {
+  medianPrice: number | null;
+  commuteMinutes: number | null;
+}
+
+export type DistrictMetricsMap = Record<string, DistrictMetrics>;
+
+// district-metrics.json, with metrics for both boundary levels
+export interface DistrictMetricsArtifact extends ArtifactHeader {
+  districts: DistrictMetricsMap;
+  sectors: DistrictMetricsMap; // Keyed by postcode sector, e.g. "SW1A 1"
+}
+
+export interface PolygonGeometry {
+  type: "Polygon" | "MultiPolygon";
+  coordinates: number[][][] | number[][][][];
+}
+
+export interface BoundaryFeature<P> {
+  type: "Feature";
+  properties: P;
+  geometry: PolygonGeometry;
+}
+
+// Boundary files are GeoJSON, with the header as foreign members
+export interface BoundaryCollection<P> extends ArtifactHeader {
+  type: "FeatureCollection";
+  features: BoundaryFeature<P>[];
+}
+
+export interface TopologyGeometry<P> {
+  type: "Polygon" | "MultiPolygon";
+  properties: P;
+  // Arc indexes for each ring; ~i means arc i reversed
+  arcs: number[][] | number[][][];
+}
+
+// Boundary files written with --topojson: rings reference shared arcs, so
+// each border is stored once. Arcs are quantized and delta-encoded when a
+// transform is given, as in TopoJSON.
+export interface BoundaryTopology<P> extends ArtifactHeader {
+  type: "Topology";
+  transform?: { scale: [number, number]; translate: [number, number] };
+  arcs: number[][][];
+  objects: {
+    boundaries: { type: "GeometryCollection"; geometries: TopologyGeometry<P>[] };
+  };
+}
+
+export type BoundaryArtifact<P> = BoundaryCollection<P> | BoundaryTopology<P>;
+
+export interface DistrictProperties {
+  district: string; // Postcode district, e.g. "SW1A"
+}
+
+export interface SectorProperties {
+  sector: string; // Postcode sector, e.g. "SW1A 1"
+}
+
+export interface LocalAuthorityProperties {
+  name: string;
+  code: string; // ONS code, e.g. "E09000033"
+}
+
+// postcode-districts.json, and the -low and -high detail levels
+export type PostcodeDistrictsArtifact = BoundaryArtifact<DistrictProperties>;
+
+// The medium level is the main file, which the pipeline scripts read
+export const DISTRICT_BOUNDARY_FILES: Record<BoundaryDetail, ArtifactName> = {
+  low: "postcode-districts-low.json",
+  medium: "postcode-districts.json",
+  high: "postcode-districts-high.json",
+};
+
+// postcode-sectors.json
+export type PostcodeSectorsArtifact = BoundaryArtifact<SectorProperties>;
+
+// la-boundaries.json
+export type LocalAuthorityBoundariesArtifact = BoundaryCollection<LocalAuthorityProperties>;
+
+// Fields of every school kept in the tile index: enough to place, filter and
+// search all schools, and list trusts and local authorities, before any
+// school tile is loaded. The rest is in the tiles, loaded once zoomed in.
+export const SCHOOL_SUMMARY_FIELDS = [
+  "urn",
+  "name",
+  "postcode",
+  "type",
+  "phase",
+  "lowAge",
+  "highAge",
+  "sixthForm",
+  "funding",
+  "admissions",
+  "gender",
+  "religiousCharacter",
+  "senProvision",
+  "status",
+  "laName",
+  "laGssCode",
+  "trustName",
+  "trustCode",
+  "ofsted",
+  "ofstedAreas",
+  "ofstedReportCard",
+  "ofstedDate",
+  "fillPercent",
+  "ks2",
+  "ks4",
+  "fsmPercent",
+  "ealPercent",
+  "senPercent",
+  "lat",
+  "lng",
+] as const satisfies readonly (keyof School)[];
+
+export type SchoolSummary = Pick<School, (typeof SCHOOL_SUMMARY_FIELDS)[number]>;
+
+// public/tiles/tiles.json, written by build-tiles. Lists the tiles that were
+// written, as "x/y" keys, so the app never asks for an empty one, and
+// summarises every school. District and sector tiles have no header: they're
+// always written along with this index.
+export interface TileIndex extends ArtifactHeader {
+  districts: Partial<Record<BoundaryDetail, TileSet>>;
+  sectors: TileSet | null; // Null if postcode-sectors.json wasn't there to cut
+  schools: TileSet;
+  schoolIndex: SchoolSummary[];
+}
+
+export interface TileSet {
+  zoom: number;
+  tiles: string[];
+}
+
+// public/tiles/districts/{z}/{x}/{y}.json. Districts aren't clipped, so one
+// appears in every tile its bounding box touches.
+export interface DistrictTile {
+  type: "FeatureCollection";
+  features: BoundaryFeature<DistrictProperties>[];
+}
+
+// public/tiles/sectors/{z}/{x}/{y}.json, cut like the district tiles
+export interface SectorTile {
+  type: "FeatureCollection";
+  features: BoundaryFeature<SectorProperties>[];
+}
+
+// public/tiles/schools/{z}/{x}/{y}.json, in the format of schools.json. Each
+// school is in exactly one tile.
+export type SchoolTile = SchoolsArtifact;
+
+/**
+ * Header for a newly written artifact.
+ */
+export function createArtifactHeader(artifact: ArtifactName): ArtifactHeader {
+  return {
+    version: ARTIFACT_VERSIONS[artifact],
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Check a loaded artifact was written in the format this code expects.
+ * Returns a description of the mismatch, or null if the versions match.
+ */
+export function checkArtifactVersion(artifact: ArtifactName, data: unknown): string | null {
+  const expected = ARTIFACT_VERSIONS[artifact];
+  const version =
+    typeof data === "object" && data !== null && "version" in data ? data.version : undefined;
+
+  if (typeof version !== "number") {
+    return `${artifact} has no format version, so it was written by an older pipeline`;
+  }
+  if (version < expected) {
+    return `${artifact} is format version ${version}, but version ${expected} is needed`;
+  }
+  if (version > expected) {
+    return `${artifact} is format version ${version}, newer than the version ${expected} this code understands`;
+  }
+  return null;
+}
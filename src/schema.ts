@@ -0,0 +1,494 @@
+/**
+ * Runtime schemas for the generated data files.
+ *
+ * The pipeline scripts validate their output against these before writing,
+ * and the app checks what it loads, so a changed GIAS value or a half-run
+ * pipeline shows up as a clear report instead of silently wrong markers.
+ */
+
+import {
+  ArtifactName,
+  SCHOOL_SUMMARY_FIELDS,
+  School,
+  SchoolSummary,
+  Ks2Results,
+  Ks4Results,
+  Post16Results,
+  DistrictMetrics,
+  OfstedReportCard,
+  checkArtifactVersion,
+} from "./contract";
+import {
+  SCHOOL_TYPES,
+  PHASES,
+  FUNDING_TYPES,
+  ADMISSIONS_POLICIES,
+  SCHOOL_STATUSES,
+  GENDER_INTAKES,
+  SIXTH_FORM_PROVISIONS,
+  RELIGIOUS_CHARACTERS,
+  SEN_PROVISIONS,
+  LOCATION_PRECISIONS,
+  OFSTED_RATINGS,
+  OFSTED_AREAS,
+  REPORT_CARD_AREAS,
+  REPORT_CARD_GRADES,
+  SAFEGUARDING_JUDGEMENTS,
+} from "./types";
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+// Returns an error message, or null if the value is valid
+type Check = (value: unknown) => string | null;
+
+// Box around England. It takes in Wales and southern Scotland as well, so it
+// only catches locations that are plainly wrong (a mistyped grid reference,
+// say); whether a school is in England goes by its authority's ONS code.
+export const ENGLAND_BOUNDING_BOX = {
+  minLat: 49.8,
+  maxLat: 55.9,
+  minLng: -6.5,
+  maxLng: 2,
+};
+
+// ONS codes of English areas, local authorities included, start with "E"
+export function isEnglishGssCode(code: string): boolean {
+  return /^E\d{8}$/.test(code);
+}
+
+// Stop collecting after this many issues so a badly broken file stays readable
+const MAX_ISSUES = 500;
+
+const string: Check = (value) =>
+  typeof value === "string" ? null : `Expected a string, got ${describe(value)}`;
+
+const boolean: Check = (value) =>
+  typeof value === "boolean" ? null : `Expected true or false, got ${describe(value)}`;
+
+const number: Check = (value) =>
+  typeof value === "number" && !isNaN(value) ? null : `Expected a number, got ${describe(value)}`;
+
+function nullable(check: Check): Check {
+  return (value) => (value === null ? null : check(value));
+}
+
+function oneOf(values: readonly string[]): Check {
+  return (value) =>
+    typeof value === "string" && values.includes(value)
+      ? null
+      : `Unknown value ${describe(value)} (expected one of: ${values.join(", ")})`;
+}
+
+function arrayOf(check: Check): Check {
+  return (value) => {
+    if (!Array.isArray(value)) return `Expected an array, got ${describe(value)}`;
+    for (const item of value) {
+      const error = check(item);
+      if (error) return error;
+    }
+    return null;
+  };
+}
+
+function shape<T>(fields: Record<keyof T, Check>): Check {
+  return (value) => {
+    if (!isObject(value)) return `Expected an object, got ${describe(value)}`;
+    for (const [field, check] of Object.entries<Check>(fields)) {
+      const error = check(value[field]);
+      if (error) return `${field}: ${error}`;
+    }
+    return null;
+  };
+}
+
+const ofstedAreas: Check = (value) => {
+  if (!isObject(value)) return `Expected an object, got ${describe(value)}`;
+  const areas = OFSTED_AREAS.map((area) => area.value as string);
+  for (const [area, rating] of Object.entries(value)) {
+    if (!areas.includes(area)) return `Unknown Ofsted area "${area}"`;
+    const error = oneOf(OFSTED_RATINGS)(rating);
+    if (error) return `${area}: ${error}`;
+  }
+  return null;
+};
+
+const reportCardGrades: Check = (value) => {
+  if (!isObject(value)) return `Expected an object, got ${describe(value)}`;
+  const areas = REPORT_CARD_AREAS.map((area) => area.value as string);
+  for (const [area, grade] of Object.entries(value)) {
+    if (!areas.includes(area)) return `Unknown report card area "${area}"`;
+    const error = oneOf(REPORT_CARD_GRADES)(grade);
+    if (error) return `${area}: ${error}`;
+  }
+  return null;
+};
+
+const isoDate: Check = (value) =>
+  typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? null
+    : `Expected a YYYY-MM-DD date, got ${describe(value)}`;
+
+export const DISTRICT_METRICS_SCHEMA: Record<keyof DistrictMetrics, Check> = {
+  medianPrice: nullable(number),
+  commuteMinutes: nullable(number),
+};
+
+export const SCHOOL_SCHEMA: Record<keyof School, Check> = {
+  urn: string,
+  name: string,
+  type: oneOf(SCHOOL_TYPES.concat("Other")),
+  phase: oneOf(PHASES),
+  lowAge: nullable(number),
+  highAge: nullable(number),
+  funding: oneOf(FUNDING_TYPES),
+  academy: boolean,
+  admissions: oneOf(ADMISSIONS_POLICIES),
+  gender: oneOf(GENDER_INTAKES),
+  sixthForm: oneOf(SIXTH_FORM_PROVISIONS),
+  religiousCharacter: oneOf(RELIGIOUS_CHARACTERS),
+  religiousEthos: nullable(string),
+  laName: string,
+  laCode: string,
+  laGssCode: nullable(string),
+  trustName: nullable(string),
+  trustCode: nullable(string),
+  status: oneOf(SCHOOL_STATUSES),
+  closeDate: nullable(isoDate),
+  closeReason: nullable(string),
+  lat: number,
+  lng: number,
+  locationPrecision: oneOf(LOCATION_PRECISIONS),
+  address: string,
+  postcode: string,
+  ofsted: oneOf(OFSTED_RATINGS),
+  ofstedDate: nullable(isoDate),
+  ofstedPrevious: oneOf(OFSTED_RATINGS),
+  ofstedInspectionType: nullable(string),
+  ofstedAreas,
+  ofstedReportCard: nullable(
+    shape<OfstedReportCard>({
+      grades: reportCardGrades,
+      safeguarding: nullable(oneOf(SAFEGUARDING_JUDGEMENTS)),
+    })
+  ),
+  pupils: nullable(number),
+  capacity: nullable(number),
+  fillPercent: nullable(number),
+  fsmPercent: nullable(number),
+  ealPercent: nullable(number),
+  senPercent: nullable(number),
+  senProvision: oneOf(SEN_PROVISIONS),
+  senPlaces: nullable(number),
+  senOnRoll: nullable(number),
+  senNeeds: arrayOf(string),
+  ks2: nullable(
+    shape<Ks2Results>({
+      expectedRwm: nullable(number),
+      higherRwm: nullable(number),
+      readingProgress: nullable(number),
+      writingProgress: nullable(number),
+      mathsProgress: nullable(number),
+    })
+  ),
+  ks4: nullable(
+    shape<Ks4Results>({
+      progress8: nullable(number),
+      attainment8: nullable(number),
+      ebaccEntry: nullable(number),
+      grade5EnglishMaths: nullable(number),
+    })
+  ),
+  post16: nullable(
+    shape<Post16Results>({
+      aLevelPointScore: nullable(number),
+      aLevelGrade: nullable(string),
+    })
+  ),
+  district: nullable(string),
+  districtMetrics: nullable(shape<DistrictMetrics>(DISTRICT_METRICS_SCHEMA)),
+};
+
+const SCHOOL_SUMMARY_SCHEMA = Object.fromEntries(
+  SCHOOL_SUMMARY_FIELDS.map((field) => [field, SCHOOL_SCHEMA[field]])
+) as Record<keyof SchoolSummary, Check>;
+
+/**
+ * Validate the contents of schools.json.
+ */
+export function validateSchools(data: unknown): ValidationIssue[] {
+  const headerIssues = validateHeader("schools.json", data);
+  if (headerIssues.length > 0) return headerIssues;
+
+  const schools = (data as Record<string, unknown>).schools;
+  if (!Array.isArray(schools)) {
+    return [{ path: "schools", message: `Expected an array of schools, got ${describe(schools)}` }];
+  }
+
+  const issues: ValidationIssue[] = [];
+  for (let index = 0; index < schools.length && issues.length < MAX_ISSUES; index++) {
+    const school = schools[index];
+    const label = isObject(school) && typeof school.urn === "string" ? school.urn : index;
+    issues.push(...validateRecord(school, SCHOOL_SCHEMA, `schools[${label}]`));
+  }
+  return issues.slice(0, MAX_ISSUES);
+}
+
+/**
+ * The schools that pass validation, so a file with a few bad records can
+ * still be shown without them.
+ */
+export function validSchools(schools: unknown[]): School[] {
+  return schools.filter(
+    (school): school is School => validateRecord(school, SCHOOL_SCHEMA, "school").length === 0
+  );
+}
+
+/**
+ * Validate the contents of tiles.json: the tile sets and the school summaries.
+ */
+export function validateTileIndex(data: unknown): ValidationIssue[] {
+  const headerIssues = validateHeader("tiles.json", data);
+  if (headerIssues.length > 0) return headerIssues;
+
+  const record = data as Record<string, unknown>;
+  const issues = validateTileSet(record.schools, "schools");
+  if (record.sectors !== null) {
+    issues.push(...validateTileSet(record.sectors, "sectors"));
+  }
+  if (!isObject(record.districts)) {
+    issues.push({
+      path: "districts",
+      message: `Expected an object keyed by detail, got ${describe(record.districts)}`,
+    });
+  } else {
+    for (const [detail, tileSet] of Object.entries(record.districts)) {
+      issues.push(...validateTileSet(tileSet, `districts.${detail}`));
+    }
+  }
+
+  const summaries = record.schoolIndex;
+  if (!Array.isArray(summaries)) {
+    issues.push({
+      path: "schoolIndex",
+      message: `Expected an array of schools, got ${describe(summaries)}`,
+    });
+    return issues;
+  }
+  for (let index = 0; index < summaries.length && issues.length < MAX_ISSUES; index++) {
+    const summary = summaries[index];
+    const label = isObject(summary) && typeof summary.urn === "string" ? summary.urn : index;
+    issues.push(...validateRecord(summary, SCHOOL_SUMMARY_SCHEMA, `schoolIndex[${label}]`));
+  }
+  return issues.slice(0, MAX_ISSUES);
+}
+
+/**
+ * The school summaries in tiles.json that pass validation.
+ */
+export function validSchoolSummaries(summaries: unknown[]): SchoolSummary[] {
+  return summaries.filter(
+    (summary): summary is SchoolSummary =>
+      validateRecord(summary, SCHOOL_SUMMARY_SCHEMA, "summary").length === 0
+  );
+}
+
+/**
+ * Validate the contents of district-metrics.json.
+ */
+export function validateDistrictMetrics(data: unknown): ValidationIssue[] {
+  const headerIssues = validateHeader("district-metrics.json", data);
+  if (headerIssues.length > 0) return headerIssues;
+
+  const record = data as Record<string, unknown>;
+  return [
+    ...validateMetricsMap(record.districts, "districts", "district"),
+    ...validateMetricsMap(record.sectors, "sectors", "sector"),
+  ].slice(0, MAX_ISSUES);
+}
+
+/**
+ * Validate the contents of postcode-districts.json, or of another detail
+ * level of the district boundaries.
+ */
+export function validateBoundaries(
+  data: unknown,
+  artifact: ArtifactName = "postcode-districts.json"
+): ValidationIssue[] {
+  return validateBoundaryCollection(artifact, "district", data);
+}
+
+/**
+ * Validate the contents of postcode-sectors.json.
+ */
+export function validateSectorBoundaries(data: unknown): ValidationIssue[] {
+  return validateBoundaryCollection("postcode-sectors.json", "sector", data);
+}
+
+/**
+ * Format issues for console output, one per line.
+ */
+export function formatIssues(issues: ValidationIssue[], limit = 20): string {
+  const lines = issues
+    .slice(0, limit)
+    .map((issue) => `  ${issue.path ? `${issue.path}: ` : ""}${issue.message}`);
+  if (issues.length > limit) {
+    lines.push(`  ...and ${issues.length - limit} more`);
+  }
+  return lines.join("\n");
+}
+
+function validateMetricsMap(value: unknown, path: string, level: string): ValidationIssue[] {
+  if (!isObject(value)) {
+    return [{ path, message: `Expected an object keyed by ${level}, got ${describe(value)}` }];
+  }
+
+  const issues: ValidationIssue[] = [];
+  for (const [name, metrics] of Object.entries(value)) {
+    issues.push(...validateRecord(metrics, DISTRICT_METRICS_SCHEMA, `${path}.${name}`));
+    if (issues.length >= MAX_ISSUES) break;
+  }
+  return issues;
+}
+
+function validateTileSet(value: unknown, path: string): ValidationIssue[] {
+  if (
+    !isObject(value) ||
+    typeof value.zoom !== "number" ||
+    !Array.isArray(value.tiles) ||
+    value.tiles.some((key) => typeof key !== "string")
+  ) {
+    return [{ path, message: `Expected a zoom and a list of tile keys, got ${describe(value)}` }];
+  }
+  return [];
+}
+
+function validateBoundaryCollection(
+  artifact: ArtifactName,
+  nameProperty: string,
+  data: unknown
+): ValidationIssue[] {
+  const headerIssues = validateHeader(artifact, data);
+  if (headerIssues.length > 0) return headerIssues;
+
+  const record = data as Record<string, unknown>;
+  if (record.type === "Topology") {
+    return validateBoundaryTopology(record, nameProperty);
+  }
+  if (record.type !== "FeatureCollection" || !Array.isArray(record.features)) {
+    return [{ path: "", message: "Expected a GeoJSON FeatureCollection or a TopoJSON Topology" }];
+  }
+
+  const issues: ValidationIssue[] = [];
+  record.features.forEach((feature: unknown, index: number) => {
+    const path = `features[${index}]`;
+    if (!isObject(feature) || !isObject(feature.properties) || !isObject(feature.geometry)) {
+      issues.push({ path, message: "Expected a GeoJSON Feature with properties and geometry" });
+      return;
+    }
+    issues.push(
+      ...validateBoundaryName(feature.properties, nameProperty, path),
+      ...validateBoundaryType(feature.geometry.type, `${path}.geometry.type`)
+    );
+  });
+  return issues.slice(0, MAX_ISSUES);
+}
+
+function validateBoundaryTopology(
+  data: Record<string, unknown>,
+  nameProperty: string
+): ValidationIssue[] {
+  const boundaries = isObject(data.objects) ? data.objects.boundaries : undefined;
+  if (!Array.isArray(data.arcs) || !isObject(boundaries) || !Array.isArray(boundaries.geometries)) {
+    return [{ path: "", message: "Expected a Topology with arcs and a boundaries object" }];
+  }
+
+  const arcCount = data.arcs.length;
+  const issues: ValidationIssue[] = [];
+  boundaries.geometries.forEach((geometry: unknown, index: number) => {
+    const path = `objects.boundaries.geometries[${index}]`;
+    if (!isObject(geometry) || !isObject(geometry.properties) || !Array.isArray(geometry.arcs)) {
+      issues.push({ path, message: "Expected a geometry with properties and arcs" });
+      return;
+    }
+    issues.push(
+      ...validateBoundaryName(geometry.properties, nameProperty, path),
+      ...validateBoundaryType(geometry.type, `${path}.type`)
+    );
+
+    // ~i refers to arc i reversed, so valid references run from -arcCount to arcCount - 1
+    const references = (geometry.arcs as unknown[]).flat(2);
+    if (references.some((ref) => typeof ref !== "number" || ref >= arcCount || ref < -arcCount)) {
+      issues.push({ path: `${path}.arcs`, message: "Refers to an arc that doesn't exist" });
+    }
+  });
+  return issues.slice(0, MAX_ISSUES);
+}
+
+function validateBoundaryName(
+  properties: Record<string, unknown>,
+  nameProperty: string,
+  path: string
+): ValidationIssue[] {
+  const name = properties[nameProperty];
+  return typeof name === "string" && name !== ""
+    ? []
+    : [{ path: `${path}.properties.${nameProperty}`, message: `Missing ${nameProperty} name` }];
+}
+
+function validateBoundaryType(geometryType: unknown, path: string): ValidationIssue[] {
+  return geometryType === "Polygon" || geometryType === "MultiPolygon"
+    ? []
+    : [
+        {
+          path,
+          message: `Unknown value ${describe(geometryType)} (expected one of: Polygon, MultiPolygon)`,
+        },
+      ];
+}
+
+function validateHeader(artifact: ArtifactName, data: unknown): ValidationIssue[] {
+  if (!isObject(data)) {
+    return [{ path: "", message: `Expected an object, got ${describe(data)}` }];
+  }
+
+  const versionProblem = checkArtifactVersion(artifact, data);
+  if (versionProblem) {
+    return [{ path: "version", message: versionProblem }];
+  }
+  const error = string(data.generatedAt);
+  return error ? [{ path: "generatedAt", message: error }] : [];
+}
+
+function validateRecord<T>(
+  value: unknown,
+  schema: Record<keyof T, Check>,
+  path: string
+): ValidationIssue[] {
+  if (!isObject(value)) {
+    return [{ path, message: `Expected an object, got ${describe(value)}` }];
+  }
+
+  const issues: ValidationIssue[] = [];
+  for (const [field, check] of Object.entries<Check>(schema)) {
+    const error = check(value[field]);
+    if (error) {
+      issues.push({ path: `${path}.${field}`, message: error });
+    }
+  }
+  return issues;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === undefined) return "nothing";
+  if (value === null) return "null";
+  if (typeof value === "string") return `"${value}"`;
+  if (Array.isArray(value)) return "an array";
+  return typeof value === "number" ? String(value) : typeof value;
+}
@@ -1,23 +1,47 @@
-export type PhaseOfEducation = "Primary" | "Secondary";
+export type PhaseOfEducation =
+  | "Nursery"
+  | "Primary"
+  | "Middle deemed primary"
+  | "Middle deemed secondary"
+  | "Secondary"
+  | "All-through"
+  | "16 plus";
+
+// Broad stages used by the phase filter; one school can cover several
+export type PhaseFilter = "Nursery" | "Primary" | "Secondary" | "16 plus";
 
 export type FundingType = "State" | "Independent";
 
 export type AdmissionsPolicy = "Selective" | "Non-selective" | "Not applicable";
 
-export interface School {
-  urn: string;
-  name: string;
-  type: SchoolType;
-  phase: PhaseOfEducation;
-  funding: FundingType;
-  admissions: AdmissionsPolicy;
-  status: string;
-  lat: number;
-  lng: number;
-  address: string;
-  postcode: string;
-  ofsted: OfstedRating;
-}
+export type SchoolStatus = "Open" | "Open, but proposed to close";
+
+export type GenderIntake = "Mixed" | "Girls" | "Boys";
+
+export type SixthFormProvision = "Has sixth form" | "No sixth form" | "Not applicable" | "Not recorded";
+
+// "exact" is the GIAS grid reference; "postcode" is the centre of the school's postcode
+export type LocationPrecision = "exact" | "postcode";
+
+export type ContextMetric = "fsmPercent" | "ealPercent" | "senPercent";
+
+export const CONTEXT_METRICS: { value: ContextMetric; label: string }[] = [
+  { value: "fsmPercent", label: "Free school meals" },
+  { value: "ealPercent", label: "English as an additional language" },
+  { value: "senPercent", label: "Special educational needs" },
+];
+
+export type SchoolSortKey = "relevance" | "progress8" | "attainment8" | "grade5EnglishMaths";
+
+export const SCHOOL_SORT_OPTIONS: { value: SchoolSortKey; label: string }[] = [
+  { value: "relevance", label: "Best match" },
+  { value: "progress8", label: "Progress 8" },
+  { value: "attainment8", label: "Attainment 8" },
+  { value: "grade5EnglishMaths", label: "Grade 5+ English & maths" },
+];
+
+// Options for the minimum Progress 8 filter
+export const PROGRESS8_THRESHOLDS = [-0.5, 0, 0.5];
 
 export type SchoolType =
   | "Academy"
@@ -26,16 +50,73 @@ export type SchoolType =
   | "Voluntary Aided"
   | "Voluntary Controlled"
   | "Free School"
+  | "Special School"
   | "Independent"
   | "Other";
 
+export type SenProvision =
+  | "Special school"
+  | "Resourced provision"
+  | "SEN unit"
+  | "Resourced provision and SEN unit"
+  | "None";
+
+export type ReligiousCharacter =
+  | "None"
+  | "Church of England"
+  | "Roman Catholic"
+  | "Other Christian"
+  | "Jewish"
+  | "Muslim"
+  | "Sikh"
+  | "Hindu"
+  | "Other faith";
+
 export type OfstedRating =
   | "Outstanding"
   | "Good"
   | "Requires Improvement"
   | "Inadequate"
+  | "No overall grade" // Inspected under report cards, which don't give one
   | "Not yet inspected";
 
+// Areas judged separately under the education inspection framework and report cards
+export type OfstedArea =
+  | "qualityOfEducation"
+  | "behaviourAndAttitudes"
+  | "personalDevelopment"
+  | "leadershipAndManagement"
+  | "earlyYears"
+  | "sixthForm";
+
+// Only areas that were actually judged are present
+export type OfstedAreaJudgements = Partial<Record<OfstedArea, OfstedRating>>;
+
+// Grades on the report cards Ofsted has given since November 2025, best first.
+// A scale of their own: they don't line up with the old four grades.
+export type ReportCardGrade =
+  | "Exceptional"
+  | "Strong standard"
+  | "Expected standard"
+  | "Needs attention"
+  | "Urgent improvement";
+
+// Areas graded on a report card
+export type ReportCardArea =
+  | "inclusion"
+  | "curriculumAndTeaching"
+  | "achievement"
+  | "attendanceAndBehaviour"
+  | "personalDevelopment"
+  | "leadershipAndGovernance"
+  | "earlyYears"
+  | "sixthForm";
+
+// Only areas that were actually graded are present
+export type ReportCardGrades = Partial<Record<ReportCardArea, ReportCardGrade>>;
+
+export type SafeguardingJudgement = "Met" | "Not met";
+
 export const SCHOOL_TYPES: SchoolType[] = [
   "Academy",
   "Community School",
@@ -43,32 +124,152 @@ export const SCHOOL_TYPES: SchoolType[] = [
   "Voluntary Aided",
   "Voluntary Controlled",
   "Free School",
+  "Special School",
   "Independent",
 ];
 
+export const SEN_PROVISIONS: SenProvision[] = [
+  "Special school",
+  "Resourced provision",
+  "SEN unit",
+  "Resourced provision and SEN unit",
+  "None",
+];
+
+export const RELIGIOUS_CHARACTERS: ReligiousCharacter[] = [
+  "None",
+  "Church of England",
+  "Roman Catholic",
+  "Other Christian",
+  "Jewish",
+  "Muslim",
+  "Sikh",
+  "Hindu",
+  "Other faith",
+];
+
 export const OFSTED_RATINGS: OfstedRating[] = [
   "Outstanding",
   "Good",
   "Requires Improvement",
   "Inadequate",
+  "No overall grade",
   "Not yet inspected",
 ];
 
-export const PHASES: PhaseOfEducation[] = ["Primary", "Secondary"];
+export const OFSTED_AREAS: { value: OfstedArea; label: string }[] = [
+  { value: "qualityOfEducation", label: "Quality of education" },
+  { value: "behaviourAndAttitudes", label: "Behaviour and attitudes" },
+  { value: "personalDevelopment", label: "Personal development" },
+  { value: "leadershipAndManagement", label: "Leadership and management" },
+  { value: "earlyYears", label: "Early years" },
+  { value: "sixthForm", label: "Sixth form" },
+];
+
+export const REPORT_CARD_GRADES: ReportCardGrade[] = [
+  "Exceptional",
+  "Strong standard",
+  "Expected standard",
+  "Needs attention",
+  "Urgent improvement",
+];
+
+export const REPORT_CARD_AREAS: { value: ReportCardArea; label: string }[] = [
+  { value: "inclusion", label: "Inclusion" },
+  { value: "curriculumAndTeaching", label: "Curriculum and teaching" },
+  { value: "achievement", label: "Achievement" },
+  { value: "attendanceAndBehaviour", label: "Attendance and behaviour" },
+  { value: "personalDevelopment", label: "Personal development and well-being" },
+  { value: "leadershipAndGovernance", label: "Leadership and governance" },
+  { value: "earlyYears", label: "Early years" },
+  { value: "sixthForm", label: "Sixth form" },
+];
+
+export const SAFEGUARDING_JUDGEMENTS: SafeguardingJudgement[] = ["Met", "Not met"];
+
+// Report card filter options; schools without a grade for the chosen area are "Not graded"
+export type ReportCardGradeFilter = ReportCardGrade | "Not graded";
+
+export const REPORT_CARD_GRADE_FILTERS: ReportCardGradeFilter[] = [...REPORT_CARD_GRADES, "Not graded"];
+
+export type StaleRatingMode = "hide" | "fade";
+
+// Options (in years) for the "rating older than" filter
+export const OFSTED_AGE_LIMITS = [3, 5, 8, 10];
+
+export type CapacityStatus = "Spaces likely" | "Near capacity" | "Over capacity" | "Unknown";
+
+export const CAPACITY_STATUSES: CapacityStatus[] = [
+  "Spaces likely",
+  "Near capacity",
+  "Over capacity",
+  "Unknown",
+];
+
+// Fill percentage at or above which a school is treated as near capacity
+export const NEAR_CAPACITY_THRESHOLD = 95;
+
+export const PHASES: PhaseOfEducation[] = [
+  "Nursery",
+  "Primary",
+  "Middle deemed primary",
+  "Middle deemed secondary",
+  "Secondary",
+  "All-through",
+  "16 plus",
+];
+
+export const PHASE_FILTERS: PhaseFilter[] = ["Nursery", "Primary", "Secondary", "16 plus"];
+
+// Middle and all-through schools take pupils either side of the move to secondary,
+// so they match both a primary and a secondary search
+export const PHASE_COVERAGE: Record<PhaseOfEducation, PhaseFilter[]> = {
+  Nursery: ["Nursery"],
+  Primary: ["Primary"],
+  "Middle deemed primary": ["Primary", "Secondary"],
+  "Middle deemed secondary": ["Primary", "Secondary"],
+  Secondary: ["Secondary"],
+  "All-through": ["Primary", "Secondary"],
+  "16 plus": ["16 plus"],
+};
 
 export const FUNDING_TYPES: FundingType[] = ["State", "Independent"];
 
 export const ADMISSIONS_POLICIES: AdmissionsPolicy[] = ["Selective", "Non-selective", "Not applicable"];
 
-// Heat map layer types
-export type HeatMapLayerType = "none" | "house-prices" | "commute-time";
+export const SCHOOL_STATUSES: SchoolStatus[] = ["Open", "Open, but proposed to close"];
 
-export interface DistrictMetrics {
-  medianPrice: number | null;
-  commuteMinutes: number | null;
-}
+export const GENDER_INTAKES: GenderIntake[] = ["Mixed", "Girls", "Boys"];
+
+export const SIXTH_FORM_PROVISIONS: SixthFormProvision[] = [
+  "Has sixth form",
+  "No sixth form",
+  "Not applicable",
+  "Not recorded",
+];
+
+export const LOCATION_PRECISIONS: LocationPrecision[] = ["exact", "postcode"];
+
+// Changes between two GIAS data refreshes, written by diff-snapshots
+export type SchoolChangeKind =
+  | "opened"
+  | "closed"
+  | "renamed"
+  | "academised"
+  | "ofsted-changed"
+  | "moved";
+
+export const SCHOOL_CHANGE_KINDS: { value: SchoolChangeKind; label: string }[] = [
+  { value: "opened", label: "Opened" },
+  { value: "closed", label: "Closed" },
+  { value: "renamed", label: "Renamed" },
+  { value: "academised", label: "Converted to academy" },
+  { value: "ofsted-changed", label: "Ofsted grade changed" },
+  { value: "moved", label: "Moved" },
+];
 
-export type DistrictMetricsMap = Record<string, DistrictMetrics>;
+// Heat map layer types
+export type HeatMapLayerType = "none" | "house-prices" | "commute-time";
 
 export interface ColorScaleConfig {
   min: number;
@@ -90,3 +291,16 @@ export const COMMUTE_TIME_SCALE: ColorScaleConfig = {
   colors: ["#1a9850", "#ffffbf", "#d73027"], // Green → Yellow → Red
   noDataColor: "#cccccc",
 };
+
+// District boundaries are written at several levels of detail, and the heat
+// map uses the one for the current zoom: coarse for England, fine for streets
+export type BoundaryDetail = "low" | "medium" | "high";
+
+export const BOUNDARY_DETAILS: { value: BoundaryDetail; maxZoom: number }[] = [
+  { value: "low", maxZoom: 8 },
+  { value: "medium", maxZoom: 11 },
+  { value: "high", maxZoom: Infinity },
+];
+
+// Zoom level at which the heat map switches from postcode districts to sectors
+export const SECTOR_MIN_ZOOM = 12;
@@ -0,0 +1,69 @@
+import { SchoolSummary } from "../contract";
+import { parseIsoDate } from "./dates";
+
+export type ChildAgeMode = "date-of-birth" | "age";
+
+export interface ChildAgeInput {
+  mode: ChildAgeMode;
+  dateOfBirth: string; // YYYY-MM-DD from a date input
+  currentAge: string;
+  intakeYear: number;
+}
+
+/**
+ * The September intake a family would normally be applying for right now.
+ */
+export function getNextIntakeYear(today: Date = new Date()): number {
+  // From September onwards, the next intake is the following year
+  return today.getMonth() >= 8 ? today.getFullYear() + 1 : today.getFullYear();
+}
+
+/**
+ * Calculate the child's age on 31 August before the intake year starts.
+ * Schools in England place children into year groups by this age.
+ */
+export function getAgeAtIntake(input: ChildAgeInput, today: Date = new Date()): number | null {
+  if (input.mode === "date-of-birth") {
+    if (!input.dateOfBirth) return null;
+
+    const dob = parseIsoDate(input.dateOfBirth);
+    if (!dob) return null;
+
+    const cutoff = new Date(input.intakeYear, 7, 31);
+    let age = cutoff.getFullYear() - dob.getFullYear();
+    const birthdayAfterCutoff =
+      dob.getMonth() > cutoff.getMonth() ||
+      (dob.getMonth() === cutoff.getMonth() && dob.getDate() > cutoff.getDate());
+    if (birthdayAfterCutoff) {
+      age--;
+    }
+    return age >= 0 ? age : null;
+  }
+
+  const currentAge = parseInt(input.currentAge, 10);
+  if (isNaN(currentAge) || currentAge < 0) return null;
+
+  // Without a birthday this is approximate: assume the child has their
+  // birthday between now and the intake cut-off each year
+  return currentAge + (input.intakeYear - today.getFullYear());
+}
+
+/**
+ * Check whether a school's statutory age range takes a child of this age.
+ * The high age is the age pupils leave at, so it is exclusive.
+ */
+export function schoolCoversAge(school: SchoolSummary, age: number): boolean {
+  if (school.lowAge === null || school.highAge === null) {
+    return false;
+  }
+  return school.lowAge <= age && age < school.highAge;
+}
+
+/**
+ * Format the year group a child of this age (on 31 August) joins.
+ */
+export function formatYearGroup(age: number): string {
+  if (age < 4) return "Nursery";
+  if (age === 4) return "Reception";
+  return `Year ${age - 4}`;
+}
@@ -1,4 +1,5 @@
-import { ColorScaleConfig, DistrictMetricsMap, HeatMapLayerType } from "../types";
+import { ColorScaleConfig, HeatMapLayerType } from "../types";
+import { DistrictMetricsMap } from "../contract";
 
 /**
  * Calculate a dynamic color scale based on visible district values.
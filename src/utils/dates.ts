@@ -0,0 +1,17 @@
+/**
+ * Parse a YYYY-MM-DD date as local midnight. `new Date("YYYY-MM-DD")` parses
+ * as UTC, which is the previous day when read back with getDate() west of
+ * UTC. Returns null if the string isn't a valid date.
+ */
+export function parseIsoDate(value: string): Date | null {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day);
+  // Reject dates that roll over, such as 2020-02-31
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+}
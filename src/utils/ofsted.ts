@@ -0,0 +1,30 @@
+import { OfstedRating, ReportCardGrade } from "../types";
+
+/**
+ * CSS class for an Ofsted rating badge.
+ */
+export function getOfstedClass(rating: OfstedRating): string {
+  const classes: Record<OfstedRating, string> = {
+    Outstanding: "ofsted-outstanding",
+    Good: "ofsted-good",
+    "Requires Improvement": "ofsted-requires-improvement",
+    Inadequate: "ofsted-inadequate",
+    "No overall grade": "ofsted-not-inspected",
+    "Not yet inspected": "ofsted-not-inspected",
+  };
+  return classes[rating] || "ofsted-not-inspected";
+}
+
+/**
+ * CSS class for a report card grade badge.
+ */
+export function getReportCardClass(grade: ReportCardGrade): string {
+  const classes: Record<ReportCardGrade, string> = {
+    Exceptional: "report-card-exceptional",
+    "Strong standard": "report-card-strong",
+    "Expected standard": "report-card-expected",
+    "Needs attention": "report-card-needs-attention",
+    "Urgent improvement": "report-card-urgent",
+  };
+  return classes[grade];
+}
@@ -0,0 +1,44 @@
+import { SchoolSummary } from "../contract";
+import { SchoolSortKey } from "../types";
+
+type Sortable = Pick<SchoolSummary, "ks4">;
+
+/**
+ * A school's figure for a sort key, or null if it has none.
+ */
+export function getSortValue(school: Sortable, sortKey: SchoolSortKey): number | null {
+  if (sortKey === "relevance") return null;
+  return school.ks4?.[sortKey] ?? null;
+}
+
+/**
+ * Sort schools by a sort key, highest first and schools without the figure
+ * last. "relevance" keeps the order they're given in.
+ */
+export function sortSchools<T extends Sortable>(schools: T[], sortKey: SchoolSortKey): T[] {
+  if (sortKey === "relevance") return schools;
+  return [...schools].sort((a, b) => {
+    const aValue = getSortValue(a, sortKey);
+    const bValue = getSortValue(b, sortKey);
+    if (aValue === null) return bValue === null ? 0 : 1;
+    if (bValue === null) return -1;
+    return bValue - aValue;
+  });
+}
+
+export function formatProgress(score: number | null): string {
+  if (score === null) return "n/a";
+  return score > 0 ? `+${score.toFixed(1)}` : score.toFixed(1);
+}
+
+/**
+ * A school's figure for a sort key, as shown next to it in a list.
+ */
+export function formatSortValue(school: Sortable, sortKey: SchoolSortKey): string {
+  const value = getSortValue(school, sortKey);
+  if (sortKey === "relevance") return "";
+  if (value === null) return "no results";
+  if (sortKey === "progress8") return `P8 ${formatProgress(value)}`;
+  if (sortKey === "attainment8") return `A8 ${value.toFixed(1)}`;
+  return `${value}% grade 5+`;
+}
@@ -0,0 +1,45 @@
+// Latitude limit of the web map projection; tiles don't reach the poles
+const MAX_LATITUDE = 85.05112878;
+
+export interface TileBounds {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+export interface TileCoordinate {
+  x: number;
+  y: number;
+}
+
+/**
+ * Tile containing a point, in the z/x/y scheme web maps use (Web Mercator,
+ * with y counting down from the north).
+ */
+export function tileForPoint(lng: number, lat: number, zoom: number): TileCoordinate {
+  const count = Math.pow(2, zoom);
+  const clampedLat = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat));
+  const latRad = (clampedLat * Math.PI) / 180;
+  const x = Math.floor(((lng + 180) / 360) * count);
+  const y = Math.floor(((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * count);
+  return {
+    x: Math.max(0, Math.min(count - 1, x)),
+    y: Math.max(0, Math.min(count - 1, y)),
+  };
+}
+
+/**
+ * Keys ("x/y") of the tiles at a zoom level that overlap a bounding box.
+ */
+export function tilesInBounds(bounds: TileBounds, zoom: number): string[] {
+  const topLeft = tileForPoint(bounds.west, bounds.north, zoom);
+  const bottomRight = tileForPoint(bounds.east, bounds.south, zoom);
+  const keys: string[] = [];
+  for (let x = topLeft.x; x <= bottomRight.x; x++) {
+    for (let y = topLeft.y; y <= bottomRight.y; y++) {
+      keys.push(`${x}/${y}`);
+    }
+  }
+  return keys;
+}
@@ -0,0 +1,68 @@
+import {
+  ArtifactHeader,
+  BoundaryArtifact,
+  BoundaryFeature,
+  BoundaryTopology,
+} from "../contract";
+
+/**
+ * Decode the arcs of a topology to coordinates, undoing the quantization and
+ * delta encoding if the topology has a transform.
+ */
+function decodeArcs<P>(topology: Omit<BoundaryTopology<P>, keyof ArtifactHeader>): number[][][] {
+  const transform = topology.transform;
+  if (!transform) {
+    return topology.arcs;
+  }
+
+  const [scaleX, scaleY] = transform.scale;
+  const [translateX, translateY] = transform.translate;
+  return topology.arcs.map((arc) => {
+    let x = 0;
+    let y = 0;
+    return arc.map(([dx, dy]) => {
+      x += dx;
+      y += dy;
+      return [x * scaleX + translateX, y * scaleY + translateY];
+    });
+  });
+}
+
+/**
+ * Convert a boundary topology to GeoJSON features, joining each ring back
+ * together from its arcs.
+ */
+export function decodeTopology<P>(
+  topology: Omit<BoundaryTopology<P>, keyof ArtifactHeader>
+): BoundaryFeature<P>[] {
+  const arcs = decodeArcs(topology);
+
+  function ring(indexes: number[]): number[][] {
+    const points: number[][] = [];
+    for (const index of indexes) {
+      const arc = index < 0 ? [...arcs[~index]].reverse() : arcs[index];
+      // Each arc starts where the previous one ended
+      points.push(...(points.length > 0 ? arc.slice(1) : arc));
+    }
+    return points;
+  }
+
+  return topology.objects.boundaries.geometries.map((geometry) => ({
+    type: "Feature",
+    properties: geometry.properties,
+    geometry:
+      geometry.type === "Polygon"
+        ? { type: "Polygon", coordinates: (geometry.arcs as number[][]).map(ring) }
+        : {
+            type: "MultiPolygon",
+            coordinates: (geometry.arcs as number[][][]).map((polygon) => polygon.map(ring)),
+          },
+  }));
+}
+
+/**
+ * The features of a boundary file, whichever form it was written in.
+ */
+export function boundaryFeatures<P>(artifact: BoundaryArtifact<P>): BoundaryFeature<P>[] {
+  return artifact.type === "Topology" ? decodeTopology(artifact) : artifact.features;
+}